@@ -1,91 +1,426 @@
 import React, { useState, useCallback, ChangeEvent, useRef, useEffect } from 'react';
-import type { ImageFile, HistoryEntry, AspectRatio } from './types';
-import { fileToBase64 } from './utils/fileUtils';
-import { createImageWithGemini, editImageWithGemini } from './services/geminiService';
-import { UploadIcon, WandIcon, RetryIcon, DownloadIcon, TrashIcon, ExtendIcon, ResetIcon } from './components/IconComponents';
+import type { ImageFile, HistoryEntry, AspectRatio, GenerationMode, GenerationRequest, GeneratedImage, ImageProviderId, BatchVariation, RoleImage, PromptPreset, RequestPhase, GenerationJob } from './types';
+import { fileToBase64, base64ToBlob, conformToAspectRatio } from './utils/fileUtils';
+import { isValidAspectRatio, aspectRatioFromSize } from './utils/aspectRatio';
+import { getImageProvider, getSelectedProviderId, listImageProviders, setSelectedProviderId } from './services/imageProviders';
+import { loadHistory, loadHistoryImage, saveHistoryEntry, updateHistoryEntry, deleteHistoryEntry, clearHistory, getStorageEstimate, HistoryEntryUpdate } from './services/historyStore';
+import { exportHistoryArchive, importHistoryArchive } from './services/historyArchive';
+import { UploadIcon, WandIcon, RetryIcon, DownloadIcon, TrashIcon, ExtendIcon, ResetIcon, SparklesIcon, ImageIcon, StarIcon } from './components/IconComponents';
 import { ImagePreview } from './components/ImagePreview';
 import { StarRating } from './components/StarRating';
-import { ImageModal } from './components/ImageModal';
-import { canGenerate, incrementGenerationCount, getRemainingGenerations } from './utils/rateLimit';
+import { ImageModal, ModalImage } from './components/ImageModal';
+import { GenerationDetails } from './components/GenerationDetails';
+import { HistoryFilters } from './components/HistoryFilters';
+import { VersionTree } from './components/VersionTree';
+import { VariationGrid } from './components/VariationGrid';
+import { MaskEditor } from './components/MaskEditor';
+import { OutpaintEditor, OutpaintCanvas } from './components/OutpaintEditor';
+import { ReferenceImageList, ReferenceImage } from './components/ReferenceImageList';
+import { PresetLibrary } from './components/PresetLibrary';
+import { PreprocessSummary } from './components/PreprocessSummary';
+import { ImageAdjuster, AdjustedImage } from './components/ImageAdjuster';
+import { ExportDialog } from './components/ExportDialog';
+import { Storyboard, StoryboardFrame } from './components/Storyboard';
+import { RatingAnalytics } from './components/RatingAnalytics';
+import { RequestStatus } from './components/RequestStatus';
+import { GenerationErrorNotice } from './components/GenerationErrorNotice';
+import { JobQueue } from './components/JobQueue';
+import { ChatThread } from './components/ChatThread';
+import { PromptSuggestionPanel, PromptSuggestionState } from './components/PromptSuggestionPanel';
+import { WebcamCapture } from './components/WebcamCapture';
+import type { ExportContext } from './utils/imageExport';
+import { loadGenerationLog, recordGeneration, clearGenerationLog, GenerationLogEntry } from './services/generationLog';
+import { fetchQuotaStatus, refundGenerations, reserveGenerations, QuotaReservation } from './services/quotaService';
+import type { QuotaStatus } from './utils/quotaPolicy';
+import { runWithConcurrency } from './utils/concurrency';
+import { GenerationError } from './utils/generationErrors';
+import { runRequest, isCancelled, toGenerationError, loadRequestSettings, saveRequestSettings, RequestCancelledError, RequestSettings, PhaseInfo, TIMEOUT_OPTIONS_SECONDS, RETRY_OPTIONS } from './utils/requestLifecycle';
+import { ChatSession, ChatTurn, getChatImage, MAX_CHAT_IMAGES, revertChatSession, toChatHistory } from './utils/chatSession';
+import { DEFAULT_QUEUE_CONCURRENCY, isJobFinished, moveQueuedJob, pickJobsToStart } from './utils/jobQueue';
+import { filterHistory, collectLabels, mergeLabels, parseLabels, DEFAULT_HISTORY_FILTER, HistoryFilter } from './utils/historySearch';
+import type { MaskStroke } from './utils/maskUtils';
+import { fetchImageFromUrl, fileFromDataTransfer, hasDroppableImage, urlFromDataTransfer, validateInputImage } from './utils/imageIngest';
+import { preprocessImage, getPreprocessMaxEdge, setPreprocessMaxEdge, MAX_EDGE_OPTIONS, PreprocessingInfo } from './utils/imagePreprocess';
+import { loadPresets, savePresets, getBuiltInPreset, getActiveNegativePresetId, setActiveNegativePresetId, combineNegativePrompts, EXTEND_PRESET_ID } from './utils/promptPresets';
+
+interface ModalView {
+  image: ModalImage;
+  compare: ModalImage | null;
+  // History entry shown, so the arrow keys can page through the history grid.
+  entryId: string | null;
+  // Object URLs created just for the modal, released when it closes or moves on.
+  ownedUrls: string[];
+}
 
 interface OriginalImage extends ImageFile {
   name: string;
   previewUrl: string;
+  // Set when the image was taken from a history entry rather than uploaded.
+  historyId?: string;
+  // Inpainting mask painted over this image; dropped whenever the image is replaced.
+  mask?: ImageFile;
+  maskStrokes?: MaskStroke[];
+  // What preprocessing did to the input; absent for images loaded from history without it (e.g. to extend).
+  preprocessing?: PreprocessingInfo;
 }
 
 const App: React.FC = () => {
   const [originalImage, setOriginalImage] = useState<OriginalImage | null>(null);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [generatedEntryId, setGeneratedEntryId] = useState<string | null>(null);
   const [prompt, setPrompt] = useState<string>('');
   const [negativePrompt, setNegativePrompt] = useState<string>('');
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  // Classified failure of the last generation, shown with recovery actions next to `error`.
+  const [generationError, setGenerationError] = useState<GenerationError | null>(null);
   const [rating, setRating] = useState<number>(0);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
-  const [modalImageUrl, setModalImageUrl] = useState<string | null>(null);
-  const [remainingGenerations, setRemainingGenerations] = useState<number>(0);
+  const [modalView, setModalView] = useState<ModalView | null>(null);
+  const [quotaStatus, setQuotaStatus] = useState<QuotaStatus | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null);
+  const [selectedEntryId, setSelectedEntryId] = useState<string | null>(null);
+  const [providerId, setProviderId] = useState<ImageProviderId>(getSelectedProviderId);
+  const [variationCount, setVariationCount] = useState<number>(1);
+  const [variationConcurrency, setVariationConcurrency] = useState<number>(2);
+  const [variations, setVariations] = useState<BatchVariation[]>([]);
+  const [requestSettings, setRequestSettings] = useState<RequestSettings>(loadRequestSettings);
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [queueConcurrency, setQueueConcurrency] = useState<number>(DEFAULT_QUEUE_CONCURRENCY);
+  const [isMaskEditing, setIsMaskEditing] = useState<boolean>(false);
+  const [isOutpainting, setIsOutpainting] = useState<boolean>(false);
+  const [referenceImages, setReferenceImages] = useState<ReferenceImage[]>([]);
+  const [presets, setPresets] = useState<PromptPreset[]>(loadPresets);
+  const [activeNegativeId, setActiveNegativeId] = useState<string | null>(getActiveNegativePresetId);
+  const [showPresets, setShowPresets] = useState<boolean>(false);
+  const [isAdjusting, setIsAdjusting] = useState<boolean>(false);
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
+  const [isArchiving, setIsArchiving] = useState<boolean>(false);
+  const [exportTarget, setExportTarget] = useState<{ imageUrl: string; context: ExportContext } | null>(null);
+  const [storyboard, setStoryboard] = useState<StoryboardFrame[] | null>(null);
+  const [isStoryboardRunning, setIsStoryboardRunning] = useState<boolean>(false);
+  const [chatSession, setChatSession] = useState<ChatSession | null>(null);
+  const [isChatting, setIsChatting] = useState<boolean>(false);
+  const [chatError, setChatError] = useState<string | null>(null);
+  const [promptSuggestion, setPromptSuggestion] = useState<PromptSuggestionState | null>(null);
+  const [promptAssist, setPromptAssist] = useState<PromptSuggestionState['source'] | null>(null);
+  const [appliedTemplate, setAppliedTemplate] = useState<GenerationRequest['template'] | null>(null);
+  const [generationLog, setGenerationLog] = useState<GenerationLogEntry[]>(loadGenerationLog);
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>(DEFAULT_HISTORY_FILTER);
+  const [showAnalytics, setShowAnalytics] = useState<boolean>(false);
+  const [collectionDraft, setCollectionDraft] = useState<string>('');
+  const [maxUploadEdge, setMaxUploadEdge] = useState<number>(getPreprocessMaxEdge);
+  const [customRatio, setCustomRatio] = useState<{ width: string; height: string }>({ width: '4', height: '3' });
+  const [imageUrlDraft, setImageUrlDraft] = useState<string>('');
+  const [isImportingUrl, setIsImportingUrl] = useState<boolean>(false);
+  const [isWebcamOpen, setIsWebcamOpen] = useState<boolean>(false);
+  const [isDraggingImage, setIsDraggingImage] = useState<boolean>(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
   const createSectionRef = useRef<HTMLElement>(null);
+  const promptInputRef = useRef<HTMLTextAreaElement>(null);
+  const storyboardStopRef = useRef<boolean>(false);
+  // Controller of the generation in progress; a run whose controller was replaced no longer touches state.
+  const generationAbortRef = useRef<AbortController | null>(null);
+  // Controllers of running queue jobs, by job id.
+  const jobAbortRef = useRef<Map<string, AbortController>>(new Map());
+  const chatAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    setRemainingGenerations(getRemainingGenerations());
+    fetchQuotaStatus()
+      .then(setQuotaStatus)
+      .catch((e) => console.error("Failed to load generation quota", e));
+  }, []);
+
+  const refreshStorageEstimate = useCallback(() => {
+    getStorageEstimate().then(setStorageEstimate);
   }, []);
 
+  useEffect(() => {
+    loadHistory()
+      .then(setHistory)
+      .catch((e) => {
+        console.error("Failed to load history", e);
+        setError('Could not load saved history from browser storage.');
+      });
+    refreshStorageEstimate();
+  }, [refreshStorageEstimate]);
+
+  // Full-size history images are object URLs created on demand; release the ones shown in the modal once it closes.
+  useEffect(() => {
+    if (!modalView || modalView.ownedUrls.length === 0) return;
+    return () => modalView.ownedUrls.forEach(url => URL.revokeObjectURL(url));
+  }, [modalView]);
+
+  useEffect(() => {
+    if (!exportTarget?.imageUrl.startsWith('blob:')) return;
+    return () => URL.revokeObjectURL(exportTarget.imageUrl);
+  }, [exportTarget]);
+
+  // Source images loaded with "Load these settings" are previewed through an object URL; release it once replaced.
+  const originalPreviewUrl = originalImage?.previewUrl;
+  useEffect(() => {
+    if (!originalPreviewUrl?.startsWith('blob:')) return;
+    return () => URL.revokeObjectURL(originalPreviewUrl);
+  }, [originalPreviewUrl]);
+
   const performGeneration = useCallback(async (
     editPrompt: string,
     negPrompt: string,
     aspect: AspectRatio,
-    imageToEdit?: OriginalImage | null
+    imageToEdit?: OriginalImage | null,
+    mode: GenerationMode = imageToEdit ? 'edit' : 'create',
+    template: GenerationRequest['template'] | null = null
   ) => {
-    if (!canGenerate()) {
-      setError("You have reached the daily limit of 20 generations. Please try again tomorrow.");
+    // A storyboard frame in flight owns generationAbortRef until it finishes.
+    if (isStoryboardRunning) {
+      setError('Wait for the storyboard to finish before starting another generation.');
+      return;
+    }
+    setGenerationError(null);
+    // The whole batch is reserved up front so concurrent requests (or other tabs) can never overshoot the quota.
+    let reservation: QuotaReservation;
+    try {
+      reservation = await reserveGenerations(variationCount, providerId);
+    } catch (e: any) {
+      console.error("Failed to reserve generations", e);
+      setError(`Could not check the generation quota: ${e.message ?? 'unknown error'}`);
+      return;
+    }
+    setQuotaStatus(reservation.status);
+    const batchSize = reservation.granted;
+    if (batchSize === 0) {
+      const message = `You have used all ${reservation.status.limit} generations (${reservation.status.policy}). More will be available at ${new Date(reservation.status.resetAt).toLocaleString()}.`;
+      setError(message);
+      setGenerationError(new GenerationError({ code: 'quota-exhausted', message }));
       return;
     }
 
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    const isCurrent = () => generationAbortRef.current === controller;
+
     setIsLoading(true);
-    setError(null);
+    setError(batchSize < variationCount
+      ? `Only ${batchSize} generation${batchSize !== 1 ? 's' : ''} left, so the batch was reduced to ${batchSize}.`
+      : null);
     setRating(0);
-    
-    try {
-      const result = imageToEdit
-        ? await editImageWithGemini(imageToEdit, editPrompt, negPrompt, aspect)
-        : await createImageWithGemini(editPrompt, negPrompt, aspect);
+    setGeneratedEntryId(null);
+    setIsAdjusting(false);
+    setVariations(Array.from({ length: batchSize }, (_, index) => ({ index, status: 'pending', phase: 'queued' })));
+
+    const provider = getImageProvider(providerId);
+    const effectiveNegativePrompt = combineNegativePrompts(negPrompt, presets.find(preset => preset.id === activeNegativeId)?.text);
+    const request = { prompt: editPrompt, negativePrompt: effectiveNegativePrompt, aspectRatio: aspect };
+    const mask = provider.capabilities.maskInput ? imageToEdit?.mask : undefined;
+    // Extend and outpaint continue a single image, so reference images only join plain create/edit requests.
+    const references = mode === 'create' || mode === 'edit'
+      ? referenceImages.slice(0, provider.capabilities.multiImageInput ? provider.capabilities.maxInputImages - (imageToEdit ? 1 : 0) : 0)
+      : [];
+    const inputImages: RoleImage[] = [
+      ...(imageToEdit ? [{ base64: imageToEdit.base64, mimeType: imageToEdit.mimeType, role: 'subject' as const }] : []),
+      ...references.map(({ base64, mimeType, role }) => ({ base64, mimeType, role })),
+    ];
+    let winnerChosen = false;
+
+    const results = await runWithConcurrency(batchSize, variationConcurrency, async (index) => {
+      const startedAt = Date.now();
+      const updatePhase = (phase: RequestPhase, { attempt, retryAt }: PhaseInfo) => {
+        if (!isCurrent()) return;
+        setVariations(prev => prev.map(v => v.index === index && v.status === 'pending' ? { ...v, phase, attempt, retryAt } : v));
+      };
+      const rawResult = await runRequest(
+        (signal, onSent) => inputImages.length > 0
+          ? provider.edit({ ...request, images: inputImages, mask }, { signal, onSent })
+          : provider.create(request, { signal, onSent }),
+        requestSettings,
+        controller.signal,
+        updatePhase
+      );
+      // A result that arrives after the user cancelled is dropped rather than overwriting newer state.
+      if (controller.signal.aborted) {
+        throw new RequestCancelledError();
+      }
 
+      // Outpainting exists to change the frame, so a result in the wrong shape is cropped to the requested ratio.
+      let result = rawResult;
+      if (mode === 'outpaint') {
+        const conformed = await conformToAspectRatio(rawResult, aspect);
+        result = { ...rawResult, base64: conformed.base64, mimeType: conformed.mimeType };
+        if (conformed.adjusted && isCurrent()) {
+          setError(`The provider returned ${conformed.originalWidth}×${conformed.originalHeight} instead of ${aspect}, so the result was center-cropped to ${conformed.width}×${conformed.height}.`);
+        }
+      }
+
+      const suffix = batchSize > 1 ? `-v${index + 1}` : '';
       const fileName = imageToEdit
-        ? `edited-${imageToEdit.name}`
-        : `created-${editPrompt.slice(0, 20).replace(/\s/g, '_')}-${Date.now()}.png`;
+        ? `edited${suffix}-${imageToEdit.name}`
+        : `created-${editPrompt.slice(0, 20).replace(/\s/g, '_')}-${Date.now()}${suffix}.png`;
         
       const imageUrl = `data:${result.mimeType};base64,${result.base64}`;
-      setGeneratedImage(imageUrl);
 
-      incrementGenerationCount();
-      setRemainingGenerations(getRemainingGenerations());
+      let entryId: string | null = null;
+      try {
+        const { entry, evictedIds } = await saveHistoryEntry({
+          blob: base64ToBlob(result.base64, result.mimeType),
+          fileName,
+          request: {
+            mode,
+            prompt: editPrompt,
+            negativePrompt: effectiveNegativePrompt,
+            aspectRatio: aspect,
+            sourceImageName: imageToEdit?.name ?? null,
+            parentId: imageToEdit?.historyId ?? null,
+            model: result.model,
+            masked: !!mask,
+            referenceImages: references.map(({ name, role }) => ({ name, role })),
+            template: template ?? undefined,
+            startedAt,
+            durationMs: Date.now() - startedAt,
+          },
+        });
+        entryId = entry.id;
+        setHistory(prev => [entry, ...prev.filter(item => !evictedIds.includes(item.id))]);
+        if (evictedIds.length > 0) {
+          setError(`Browser storage was full, so the ${evictedIds.length} oldest history item${evictedIds.length !== 1 ? 's were' : ' was'} removed.`);
+        }
+      } catch (e: any) {
+        console.error("Failed to save history entry", e);
+        setError(`The image was generated but could not be saved to history: ${e.message ?? 'unknown error'}`);
+      }
+      setGenerationLog(recordGeneration({ provider: provider.id, mode, aspectRatio: aspect, model: result.model, template, outcome: 'success', entryId }));
 
-      const newHistoryEntry: HistoryEntry = {
-        id: new Date().toISOString(),
-        imageUrl: imageUrl,
-        fileName: fileName,
-        date: new Date().toLocaleString()
-      };
-      setHistory(prev => [newHistoryEntry, ...prev]);
+      setVariations(prev => prev.map(v => v.index === index ? { index, status: 'done', imageUrl, entryId } : v));
+      // The first finished variation becomes the current result until the user picks another.
+      if (!winnerChosen) {
+        winnerChosen = true;
+        setGeneratedImage(imageUrl);
+        setGeneratedEntryId(entryId);
+      }
+    });
 
-    } catch (e: any) {
-      setError(e.message || 'An unexpected error occurred.');
-    } finally {
+    const rejected = results
+      .map((result, index) => ({ result, index }))
+      .filter((item): item is { result: PromiseRejectedResult; index: number } => item.result.status === 'rejected');
+    const cancelled = rejected.filter(item => isCancelled(item.result.reason));
+    const failures = rejected.filter(item => !isCancelled(item.result.reason));
+    if (cancelled.length > 0 && isCurrent()) {
+      const cancelledIndexes = new Set(cancelled.map(item => item.index));
+      setVariations(prev => prev.map(v => cancelledIndexes.has(v.index) ? { ...v, status: 'cancelled', phase: 'cancelled' } : v));
+      if (failures.length === 0) {
+        setError(`Cancelled ${cancelled.length === batchSize ? 'the generation' : `${cancelled.length} of ${batchSize} variations`}.`);
+      }
+    }
+    if (failures.length > 0) {
+      failures.forEach(({ result }) => setGenerationLog(recordGeneration({
+        provider: provider.id,
+        mode,
+        aspectRatio: aspect,
+        model: null,
+        template,
+        outcome: 'failure',
+        entryId: null,
+        error: result.reason?.message,
+      })));
+      if (isCurrent()) {
+        const failedIndexes = new Set(failures.map(failure => failure.index));
+        setVariations(prev => prev.map(v => failedIndexes.has(v.index)
+          ? { ...v, status: 'error', error: failures.find(f => f.index === v.index)?.result.reason?.message }
+          : v));
+        const classified = toGenerationError(failures[0].result.reason);
+        setError(failures.length === batchSize
+          ? classified.message
+          : `${failures.length} of ${batchSize} variations failed: ${classified.message}`);
+        setGenerationError(classified);
+      }
+    }
+    if (rejected.length > 0) {
+      try {
+        setQuotaStatus(await refundGenerations(reservation, rejected.length));
+      } catch (e) {
+        console.error("Failed to refund generations for failed requests", e);
+      }
+    }
+
+    if (isCurrent()) {
+      generationAbortRef.current = null;
       setIsLoading(false);
     }
+    refreshStorageEstimate();
+  }, [providerId, variationCount, variationConcurrency, requestSettings, referenceImages, presets, activeNegativeId, refreshStorageEstimate, isStoryboardRunning]);
+
+  const handleCancelGeneration = useCallback(() => {
+    generationAbortRef.current?.abort();
+  }, []);
+
+  const handleRequestSettingsChange = useCallback((changes: Partial<RequestSettings>) => {
+    setRequestSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveRequestSettings(next);
+      return next;
+    });
   }, []);
 
   const handleResetPromptsAndErrors = useCallback(() => {
     setPrompt('');
     setNegativePrompt('');
+    setAppliedTemplate(null);
     setError(null);
+    setGenerationError(null);
+    setPromptSuggestion(null);
+  }, []);
+
+  // A mask only makes sense for the image it was painted on.
+  useEffect(() => {
+    setIsMaskEditing(false);
+    setIsOutpainting(false);
+  }, [originalImage?.previewUrl]);
+
+  const handleMaskStrokesChange = useCallback((maskStrokes: MaskStroke[]) => {
+    setOriginalImage(prev => prev && { ...prev, maskStrokes });
   }, []);
 
+  const handleMaskChange = useCallback((mask: ImageFile | null) => {
+    setOriginalImage(prev => prev && { ...prev, mask: mask ?? undefined });
+  }, []);
+
+  const handleRemoveMask = useCallback(() => {
+    setOriginalImage(prev => prev && { ...prev, mask: undefined, maskStrokes: undefined });
+    setIsMaskEditing(false);
+  }, []);
+
+  const handleOutpaint = useCallback(async (canvas: OutpaintCanvas) => {
+    if (!originalImage) return;
+    setIsOutpainting(false);
+    setGeneratedImage(null);
+    const outpaintPrompt = prompt.trim() || 'Extend the scene into the empty gray area, continuing the existing content, lighting and perspective seamlessly.';
+    await performGeneration(outpaintPrompt, negativePrompt, aspectRatio, {
+      ...canvas.image,
+      mask: canvas.mask,
+      name: `outpaint-${originalImage.name}`,
+      historyId: originalImage.historyId,
+    }, 'outpaint');
+  }, [originalImage, prompt, negativePrompt, aspectRatio, performGeneration]);
+
+  const handleCustomRatioChange = (next: { width: string; height: string }) => {
+    setCustomRatio(next);
+    const ratio = `${next.width}:${next.height}`;
+    if (isValidAspectRatio(ratio)) {
+      setAspectRatio(ratio);
+    }
+  };
+
   const handleRemoveImage = useCallback(() => {
+    generationAbortRef.current?.abort();
+    generationAbortRef.current = null;
+    setGenerationError(null);
+    setIsMaskEditing(false);
+    setIsOutpainting(false);
     setOriginalImage(null);
     setGeneratedImage(null);
+    setGeneratedEntryId(null);
+    setVariations([]);
     setIsLoading(false);
     setRating(0);
     if (fileInputRef.current) {
@@ -93,56 +428,490 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const handleFileChange = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+  // Every way of supplying the input image (upload, paste, drop, URL, webcam, history) ends up here.
+  const ingestImage = useCallback(async (blob: Blob, name: string, historyId?: string): Promise<boolean> => {
+    // Replacing the image cancels the generation in flight, so a stray paste or drop must not.
+    if (isLoading || isStoryboardRunning) {
+      setError('Wait for the current generation to finish before changing the input image.');
+      return false;
+    }
+    const problem = validateInputImage(blob);
+    if (problem) {
+      setError(problem);
+      return false;
+    }
+    handleRemoveImage();
+    handleResetPromptsAndErrors();
+    setIsWebcamOpen(false);
+
+    try {
+      const { base64, mimeType, name: processedName, ...preprocessing } = await preprocessImage(blob, name, maxUploadEdge);
+      setOriginalImage({
+          base64,
+          mimeType,
+          name: processedName,
+          previewUrl: `data:${mimeType};base64,${base64}`,
+          historyId,
+          preprocessing,
+      });
+      return true;
+    } catch (e: any) {
+      setError(e.message || 'Failed to process image file.');
+      console.error(e);
+      return false;
+    }
+  }, [isLoading, isStoryboardRunning, handleRemoveImage, handleResetPromptsAndErrors, maxUploadEdge]);
+
+  const handleFileChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      if (!file.type.startsWith('image/')) {
-        setError('Please select an image file.');
-        return;
-      }
-      handleRemoveImage();
-      handleResetPromptsAndErrors();
+      ingestImage(file, file.name);
+    }
+  }, [ingestImage]);
 
-      try {
-        const base64 = await fileToBase64(file);
-        setOriginalImage({
-            base64,
-            mimeType: file.type,
-            name: file.name,
-            previewUrl: URL.createObjectURL(file)
-        });
-      } catch (e) {
-        setError('Failed to process image file.');
-        console.error(e);
+  const handleImportImageUrl = useCallback(async (url: string) => {
+    setIsImportingUrl(true);
+    setError(null);
+    try {
+      const { blob, name } = await fetchImageFromUrl(url);
+      if (await ingestImage(blob, name)) {
+        setImageUrlDraft('');
       }
+    } catch (e: any) {
+      setError(e.message || 'The image could not be downloaded.');
+    } finally {
+      setIsImportingUrl(false);
     }
-  }, [handleRemoveImage, handleResetPromptsAndErrors]);
+  }, [ingestImage]);
+
+  const handleDropImage = useCallback((event: React.DragEvent) => {
+    setIsDraggingImage(false);
+    // Drops already handled inside the panel (such as reordering additional images) are left alone.
+    if (event.defaultPrevented || !hasDroppableImage(event.dataTransfer)) return;
+    event.preventDefault();
+    const file = fileFromDataTransfer(event.dataTransfer, 'dropped-image');
+    const url = file ? null : urlFromDataTransfer(event.dataTransfer);
+    if (file) {
+      ingestImage(file.blob, file.name);
+    } else if (url) {
+      handleImportImageUrl(url);
+    }
+  }, [ingestImage, handleImportImageUrl]);
+
+  // Pasting an image anywhere on the page uses it as the input; pasting text keeps working as usual.
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const file = fileFromDataTransfer(event.clipboardData, 'pasted-image.png');
+      if (!file) return;
+      event.preventDefault();
+      ingestImage(file.blob, file.name);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [ingestImage]);
   
+  const handleAddReferenceImages = useCallback(async (files: File[]) => {
+    const imageFiles = files.filter(file => file.type.startsWith('image/'));
+    if (imageFiles.length < files.length) {
+      setError('Please select only image files.');
+    }
+    try {
+      const added = await Promise.all(imageFiles.map(async (file): Promise<ReferenceImage> => {
+        const { base64, mimeType, name } = await preprocessImage(file, file.name, maxUploadEdge);
+        return {
+          id: crypto.randomUUID(),
+          base64,
+          mimeType,
+          name,
+          previewUrl: `data:${mimeType};base64,${base64}`,
+          role: 'style',
+        };
+      }));
+      setReferenceImages(prev => [...prev, ...added]);
+    } catch (e: any) {
+      setError(e.message || 'Failed to process image file.');
+      console.error(e);
+    }
+  }, [maxUploadEdge]);
+
+  const handlePresetsChange = useCallback((next: PromptPreset[]) => {
+    setPresets(next);
+    savePresets(next);
+  }, []);
+
+  const handleActiveNegativeChange = useCallback((id: string | null) => {
+    setActiveNegativeId(id);
+    setActiveNegativePresetId(id);
+  }, []);
+
+  const handleApplyTemplate = useCallback((preset: PromptPreset, templatePrompt: string) => {
+    setPrompt(templatePrompt);
+    setAppliedTemplate({ id: preset.id, name: preset.name });
+    if (preset.negativePrompt) {
+      setNegativePrompt(prev => combineNegativePrompts(prev, preset.negativePrompt));
+    }
+    setError(null);
+  }, []);
+
+  const handleApplyStyle = useCallback((preset: PromptPreset) => {
+    setPrompt(prev => prev.trim() ? `${prev.trim()}, ${preset.text}` : preset.text);
+    if (preset.negativePrompt) {
+      setNegativePrompt(prev => combineNegativePrompts(prev, preset.negativePrompt));
+    }
+    setError(null);
+  }, []);
+
+  // Asks the provider's text model to expand the prompt, or to caption the input image as a starting
+  // point for an edit prompt. Either way the result is only a suggestion until the user accepts it.
+  const handlePromptAssist = useCallback(async (source: PromptSuggestionState['source']) => {
+    const provider = getImageProvider(providerId);
+    setPromptAssist(source);
+    setError(null);
+    try {
+      const result = source === 'enhance'
+        ? await runRequest((signal, onSent) => provider.enhancePrompt({ prompt, mode: originalImage ? 'edit' : 'create' }, { signal, onSent }), requestSettings)
+        : await runRequest((signal, onSent) => provider.describeImage({ base64: originalImage!.base64, mimeType: originalImage!.mimeType }, { signal, onSent }), requestSettings);
+      setPromptSuggestion({ source, original: prompt, text: result.text });
+    } catch (e) {
+      console.error(source === 'enhance' ? "Failed to enhance prompt" : "Failed to describe image", e);
+      setError(toGenerationError(e).message);
+    } finally {
+      setPromptAssist(null);
+    }
+  }, [providerId, prompt, originalImage, requestSettings]);
+
   const handleGenerate = async () => {
     if (!prompt.trim()) {
       setError('Please enter a prompt.');
       return;
     }
     setGeneratedImage(null);
-    await performGeneration(prompt, negativePrompt, aspectRatio, originalImage);
+    await performGeneration(prompt, negativePrompt, aspectRatio, originalImage, undefined, appliedTemplate);
   };
 
-  const handleDownload = (imageUrl: string, fileName: string) => {
-    if (!imageUrl) return;
-    const link = document.createElement('a');
-    link.href = imageUrl;
-    link.download = fileName;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Snapshots the current form into a background job. Unlike `handleGenerate` this never locks the form,
+  // and always makes a single image; the queue panel decides when it runs.
+  const handleQueueJob = () => {
+    if (!prompt.trim()) {
+      setError('Please enter a prompt.');
+      return;
+    }
+    const provider = getImageProvider(providerId);
+    const references = referenceImages.slice(0, provider.capabilities.multiImageInput ? provider.capabilities.maxInputImages - (originalImage ? 1 : 0) : 0);
+    const job: GenerationJob = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      createdAt: Date.now(),
+      providerId,
+      mode: originalImage ? 'edit' : 'create',
+      prompt,
+      negativePrompt: combineNegativePrompts(negativePrompt, presets.find(preset => preset.id === activeNegativeId)?.text),
+      aspectRatio,
+      template: appliedTemplate,
+      images: [
+        ...(originalImage ? [{ base64: originalImage.base64, mimeType: originalImage.mimeType, role: 'subject' as const }] : []),
+        ...references.map(({ base64, mimeType, role }) => ({ base64, mimeType, role })),
+      ],
+      mask: provider.capabilities.maskInput ? originalImage?.mask : undefined,
+      sourceImageName: originalImage?.name ?? null,
+      parentId: originalImage?.historyId ?? null,
+      referenceImages: references.map(({ name, role }) => ({ name, role })),
+    };
+    setJobs(prev => [...prev, job]);
+    setError(null);
   };
 
+  // Runs one queue job to completion: reserves a generation, calls the provider, and saves the result to
+  // history. A job refused by the quota goes back to the queue, which stays paused until the quota resets.
+  const runQueuedJob = useCallback(async (job: GenerationJob) => {
+    const controller = new AbortController();
+    jobAbortRef.current.set(job.id, controller);
+    const updateJob = (changes: Partial<GenerationJob>) => setJobs(prev => prev.map(item => item.id === job.id ? { ...item, ...changes } : item));
+    const provider = getImageProvider(job.providerId);
+    const logFailure = (message?: string) => setGenerationLog(recordGeneration({
+      provider: provider.id, mode: job.mode, aspectRatio: job.aspectRatio, model: null, template: job.template, outcome: 'failure', entryId: null, error: message,
+    }));
+
+    let reservation: QuotaReservation;
+    try {
+      reservation = await reserveGenerations(1, job.providerId);
+    } catch (e: any) {
+      console.error("Failed to reserve a generation for a queued job", e);
+      jobAbortRef.current.delete(job.id);
+      updateJob({ status: 'error', phase: undefined, error: `Could not check the generation quota: ${e.message ?? 'unknown error'}` });
+      return;
+    }
+    setQuotaStatus(reservation.status);
+    if (reservation.granted === 0) {
+      jobAbortRef.current.delete(job.id);
+      updateJob(controller.signal.aborted ? { status: 'cancelled', phase: undefined } : { status: 'queued', phase: undefined });
+      return;
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = await runRequest(
+        (signal, onSent) => job.images.length > 0
+          ? provider.edit({ prompt: job.prompt, negativePrompt: job.negativePrompt, aspectRatio: job.aspectRatio, images: job.images, mask: job.mask }, { signal, onSent })
+          : provider.create({ prompt: job.prompt, negativePrompt: job.negativePrompt, aspectRatio: job.aspectRatio }, { signal, onSent }),
+        requestSettings,
+        controller.signal,
+        (phase, { attempt, retryAt }) => updateJob({ phase, attempt, retryAt })
+      );
+      if (controller.signal.aborted) {
+        throw new RequestCancelledError();
+      }
+
+      const imageUrl = `data:${result.mimeType};base64,${result.base64}`;
+      let entryId: string | null = null;
+      try {
+        const { entry, evictedIds } = await saveHistoryEntry({
+          blob: base64ToBlob(result.base64, result.mimeType),
+          fileName: job.sourceImageName
+            ? `edited-${job.sourceImageName}`
+            : `created-${job.prompt.slice(0, 20).replace(/\s/g, '_')}-${Date.now()}.png`,
+          request: {
+            mode: job.mode,
+            prompt: job.prompt,
+            negativePrompt: job.negativePrompt,
+            aspectRatio: job.aspectRatio,
+            sourceImageName: job.sourceImageName,
+            parentId: job.parentId,
+            model: result.model,
+            masked: !!job.mask,
+            referenceImages: job.referenceImages,
+            template: job.template ?? undefined,
+            startedAt,
+            durationMs: Date.now() - startedAt,
+          },
+        });
+        entryId = entry.id;
+        setHistory(prev => [entry, ...prev.filter(item => !evictedIds.includes(item.id))]);
+      } catch (e: any) {
+        console.error("Failed to save queued job result to history", e);
+        setError(`A queued image was generated but could not be saved to history: ${e.message ?? 'unknown error'}`);
+      }
+      setGenerationLog(recordGeneration({ provider: provider.id, mode: job.mode, aspectRatio: job.aspectRatio, model: result.model, template: job.template, outcome: 'success', entryId }));
+      updateJob({ status: 'done', phase: undefined, imageUrl, entryId });
+    } catch (e: any) {
+      if (isCancelled(e)) {
+        updateJob({ status: 'cancelled', phase: undefined });
+      } else {
+        console.error("Queued generation failed", e);
+        const classified = toGenerationError(e);
+        logFailure(classified.message);
+        updateJob({ status: 'error', phase: undefined, error: classified.message });
+      }
+      try {
+        setQuotaStatus(await refundGenerations(reservation, 1));
+      } catch (refundError) {
+        console.error("Failed to refund generation for a queued job", refundError);
+      }
+    } finally {
+      jobAbortRef.current.delete(job.id);
+      refreshStorageEstimate();
+    }
+  }, [requestSettings, refreshStorageEstimate]);
+
+  // Starts queued jobs whenever a slot frees up, the queue changes, or the quota grows again.
+  useEffect(() => {
+    const toStart = pickJobsToStart(jobs, queueConcurrency, quotaStatus?.remaining ?? null);
+    if (toStart.length === 0) return;
+    const startIds = new Set(toStart.map(job => job.id));
+    setJobs(prev => prev.map(job => startIds.has(job.id) ? { ...job, status: 'running', phase: 'queued', attempt: undefined, retryAt: undefined } : job));
+    toStart.forEach(runQueuedJob);
+  }, [jobs, queueConcurrency, quotaStatus, runQueuedJob]);
+
+  // While the quota holds the queue back, check again once it is due to reset.
+  const hasQueuedJobs = jobs.some(job => job.status === 'queued');
+  useEffect(() => {
+    if (!hasQueuedJobs || !quotaStatus || quotaStatus.remaining > 0) return;
+    const timer = setTimeout(() => {
+      fetchQuotaStatus()
+        .then(setQuotaStatus)
+        .catch((e) => console.error("Failed to refresh generation quota", e));
+    }, Math.max(1000, quotaStatus.resetAt - Date.now() + 1000));
+    return () => clearTimeout(timer);
+  }, [hasQueuedJobs, quotaStatus]);
+
+  const handleCancelJob = useCallback((id: string) => {
+    jobAbortRef.current.get(id)?.abort();
+    setJobs(prev => prev.map(job => job.id === id && job.status === 'queued' ? { ...job, status: 'cancelled' } : job));
+  }, []);
+
+  const handleRetryJob = useCallback((id: string) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, status: 'queued', error: undefined, phase: undefined, attempt: undefined, retryAt: undefined } : job));
+  }, []);
+
+  const handleMoveJob = useCallback((id: string, offset: -1 | 1) => {
+    setJobs(prev => moveQueuedJob(prev, id, offset));
+  }, []);
+
+  const handleExportGenerated = () => {
+    if (!generatedImage) return;
+    const entry = history.find(item => item.id === generatedEntryId);
+    setExportTarget({
+      imageUrl: generatedImage,
+      context: {
+        fileName: entry?.fileName ?? `edited-${originalImage?.name ?? 'image.png'}`,
+        request: entry?.request ?? null,
+        rating,
+        date: entry?.createdAt ?? Date.now(),
+      },
+    });
+  };
+
+  const withHistoryImage = useCallback(async (item: HistoryEntry, action: (url: string) => void) => {
+    try {
+      const blob = await loadHistoryImage(item.id);
+      if (!blob) {
+        setError('This image is no longer available in browser storage.');
+        return;
+      }
+      action(URL.createObjectURL(blob));
+    } catch (e) {
+      console.error("Failed to load history image", e);
+      setError('Failed to load the image from history.');
+    }
+  }, []);
+
+  const openImageInModal = useCallback((url: string, label: string, compare: ModalImage | null = null) => {
+    setModalView({ image: { url, label }, compare, entryId: null, ownedUrls: [] });
+  }, []);
+
+  // Opens a history entry compared with `compareWith`, or by default with the image it was made from.
+  const openHistoryInModal = useCallback(async (item: HistoryEntry, compareWith?: HistoryEntry | null) => {
+    const other = compareWith === undefined
+      ? history.find(entry => entry.id === item.request?.parentId) ?? null
+      : compareWith;
+    try {
+      const [blob, otherBlob] = await Promise.all([loadHistoryImage(item.id), other ? loadHistoryImage(other.id) : null]);
+      if (!blob) {
+        setError('This image is no longer available in browser storage.');
+        return;
+      }
+      const url = URL.createObjectURL(blob);
+      const otherUrl = otherBlob ? URL.createObjectURL(otherBlob) : null;
+      setModalView({
+        image: { url, label: item.fileName },
+        compare: other && otherUrl ? { url: otherUrl, label: other.fileName } : null,
+        entryId: item.id,
+        ownedUrls: otherUrl ? [url, otherUrl] : [url],
+      });
+    } catch (e) {
+      console.error("Failed to load history image", e);
+      setError('Failed to load the image from history.');
+    }
+  }, [history]);
+
+  const handleOpenHistoryItem = useCallback((item: HistoryEntry) => {
+    openHistoryInModal(item);
+  }, [openHistoryInModal]);
+
+  const handleDownloadHistoryItem = useCallback((item: HistoryEntry) => {
+    withHistoryImage(item, (url) => setExportTarget({
+      imageUrl: url,
+      context: { fileName: item.fileName, request: item.request, rating: item.rating, date: item.createdAt },
+    }));
+  }, [withHistoryImage]);
+
+  const handleToggleChecked = useCallback((id: string) => {
+    setCheckedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleExportArchive = useCallback(async (entries: HistoryEntry[]) => {
+    if (entries.length === 0) return;
+    setIsArchiving(true);
+    try {
+      const blob = await exportHistoryArchive(entries, history);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `smart-imaginer-history-${new Date().toISOString().slice(0, 10)}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e: any) {
+      console.error("Failed to export history archive", e);
+      setError(`Failed to export history: ${e.message ?? 'unknown error'}`);
+    } finally {
+      setIsArchiving(false);
+    }
+  }, [history]);
+
+  const handleImportArchive = useCallback(async (file: File) => {
+    setIsArchiving(true);
+    try {
+      const { imported, skipped, error } = await importHistoryArchive(file);
+      setHistory(prev => [...imported, ...prev].sort((a, b) => b.createdAt - a.createdAt));
+      const summary = `Imported ${imported.length} image${imported.length !== 1 ? 's' : ''}`;
+      if (error) {
+        setError(`${summary} before the import stopped: ${error.message}`);
+      } else {
+        setError(skipped > 0 ? `${summary}; ${skipped} were already in history or missing from the archive.` : null);
+      }
+    } catch (e: any) {
+      console.error("Failed to import history archive", e);
+      setError(`Failed to import history: ${e.message ?? 'unknown error'}`);
+    } finally {
+      setIsArchiving(false);
+      refreshStorageEstimate();
+    }
+  }, [refreshStorageEstimate]);
+
+  const clearPersistedHistory = useCallback(async () => {
+    try {
+      await clearHistory();
+      setHistory([]);
+      setCheckedIds(new Set());
+      setSelectedEntryId(null);
+      setGeneratedEntryId(null);
+    } catch (e) {
+      console.error("Failed to clear history", e);
+      setError('Failed to clear history from browser storage.');
+    }
+    refreshStorageEstimate();
+  }, [refreshStorageEstimate]);
+
   const handleClearHistory = useCallback(() => {
     if (window.confirm('Are you sure you want to clear all history? This action cannot be undone.')) {
-      setHistory([]);
+      clearPersistedHistory();
     }
-  }, []);
+  }, [clearPersistedHistory]);
   
+  const getExtendPreset = useCallback(() => {
+    const extendPreset = presets.find(preset => preset.id === EXTEND_PRESET_ID) ?? getBuiltInPreset(EXTEND_PRESET_ID);
+    return {
+      prompt: extendPreset?.text ?? '',
+      negativePrompt: extendPreset?.negativePrompt ?? '',
+      template: { id: EXTEND_PRESET_ID, name: extendPreset?.name ?? 'Extend scene' },
+    };
+  }, [presets]);
+
+  const extendFrom = useCallback(async (newOriginalImage: OriginalImage) => {
+    const { prompt: extendPrompt, negativePrompt: extendNegativePrompt, template } = getExtendPreset();
+
+    setOriginalImage(newOriginalImage);
+    setGeneratedImage(null);
+    setPrompt(extendPrompt);
+    setNegativePrompt(extendNegativePrompt);
+    setAppliedTemplate(template);
+    setError(null);
+    
+    createSectionRef.current?.scrollIntoView({ behavior: 'smooth' });
+    
+    await performGeneration(extendPrompt, extendNegativePrompt, aspectRatio, newOriginalImage, 'extend', template);
+  }, [getExtendPreset, aspectRatio, performGeneration]);
+
   const handleExtend = useCallback(async () => {
     if (!generatedImage || isLoading) return;
 
@@ -161,47 +930,575 @@ const App: React.FC = () => {
     }
     const mimeType = mimeTypeMatch[1];
 
-    const newOriginalImage: OriginalImage = {
+    await extendFrom({
         base64: base64Data,
         mimeType: mimeType,
         name: `extended-${originalImage?.name ?? 'image.png'}`,
         previewUrl: generatedImage,
-    };
+        historyId: generatedEntryId ?? undefined,
+    });
+  }, [generatedImage, generatedEntryId, originalImage, isLoading, extendFrom]);
 
-    const extendPrompt = "Generate the next natural progression of the scene. Ensure No existing objects overlap or blur, don't duplicate same characters. Also don't add new objects without the real need as it will change the scene dynamics. dont change the theme, have some variation with the angle movement by some degrees or zoomin naturally. Look at the probable action the characters can do and change the next scene accordingly";
-    const extendNegativePrompt = '';
+  // Extends one storyboard frame into the next: reserves a single generation, saves the result to
+  // history as a child of the source frame, and refunds the reservation when the provider fails.
+  const generateStoryboardFrame = useCallback(async (source: StoryboardFrame, framePrompt: string): Promise<{ imageUrl: string; entryId: string | null }> => {
+    // Everything that can fail before the request is done before reserving, so no reservation is left unrefunded.
+    const extendPreset = getExtendPreset();
+    const editPrompt = framePrompt.trim() || extendPreset.prompt;
+    const template = framePrompt.trim() ? null : extendPreset.template;
+    const provider = getImageProvider(providerId);
+    const effectiveNegativePrompt = combineNegativePrompts(extendPreset.negativePrompt, presets.find(preset => preset.id === activeNegativeId)?.text);
+    const sourceBlob = await (await fetch(source.imageUrl!)).blob();
+    const images: RoleImage[] = [{ base64: await fileToBase64(sourceBlob), mimeType: sourceBlob.type, role: 'subject' }];
+    const sourceEntry = history.find(item => item.id === source.entryId) ?? null;
 
-    setOriginalImage(newOriginalImage);
-    setGeneratedImage(null);
-    setPrompt(extendPrompt);
-    setNegativePrompt(extendNegativePrompt);
+    const reservation = await reserveGenerations(1, provider.id);
+    setQuotaStatus(reservation.status);
+    if (reservation.granted === 0) {
+      throw new Error(`You have used all ${reservation.status.limit} generations. More will be available at ${new Date(reservation.status.resetAt).toLocaleString()}.`);
+    }
+
+    const startedAt = Date.now();
+    // Registered like a regular generation, so Stop and Reset can cancel the frame in flight.
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    let result: GeneratedImage;
+    try {
+      result = await runRequest(
+        (signal, onSent) => provider.edit({ prompt: editPrompt, negativePrompt: effectiveNegativePrompt, aspectRatio, images }, { signal, onSent }),
+        requestSettings,
+        controller.signal
+      );
+    } catch (e: any) {
+      setGenerationLog(recordGeneration({ provider: provider.id, mode: 'extend', aspectRatio, model: null, template, outcome: 'failure', entryId: null, error: e?.message }));
+      try {
+        setQuotaStatus(await refundGenerations(reservation, 1));
+      } catch (refundError) {
+        console.error("Failed to refund generation for failed storyboard frame", refundError);
+      }
+      throw e;
+    } finally {
+      if (generationAbortRef.current === controller) {
+        generationAbortRef.current = null;
+      }
+    }
+
+    const imageUrl = `data:${result.mimeType};base64,${result.base64}`;
+    let entryId: string | null = null;
+    try {
+      const { entry, evictedIds } = await saveHistoryEntry({
+        blob: base64ToBlob(result.base64, result.mimeType),
+        fileName: `storyboard-${sourceEntry?.fileName ?? 'frame.png'}`,
+        request: {
+          mode: 'extend',
+          prompt: editPrompt,
+          negativePrompt: effectiveNegativePrompt,
+          aspectRatio,
+          sourceImageName: sourceEntry?.fileName ?? null,
+          parentId: sourceEntry?.id ?? null,
+          model: result.model,
+          template: template ?? undefined,
+          startedAt,
+          durationMs: Date.now() - startedAt,
+        },
+      });
+      entryId = entry.id;
+      setHistory(prev => [entry, ...prev.filter(item => !evictedIds.includes(item.id))]);
+    } catch (e: any) {
+      console.error("Failed to save storyboard frame to history", e);
+      setError(`A storyboard frame was generated but could not be saved to history: ${e.message ?? 'unknown error'}`);
+    }
+    setGenerationLog(recordGeneration({ provider: provider.id, mode: 'extend', aspectRatio, model: result.model, template, outcome: 'success', entryId }));
+    return { imageUrl, entryId };
+  }, [getExtendPreset, presets, activeNegativeId, history, providerId, aspectRatio, requestSettings]);
+
+  const handleOpenStoryboard = useCallback(() => {
+    if (!generatedImage) return;
+    setStoryboard(prev => prev ?? [{ id: crypto.randomUUID(), status: 'done', imageUrl: generatedImage, entryId: generatedEntryId, prompt: '' }]);
+  }, [generatedImage, generatedEntryId]);
+
+  // Appends `count` frames, each extending the previous one. Frames depend on their predecessor,
+  // so the chain stops at the first failure or when the user asks it to stop.
+  const handleRunStoryboard = useCallback(async (count: number, prompts: string[]) => {
+    if (!storyboard || isStoryboardRunning) return;
+    if (isLoading) {
+      setError('Wait for the current generation to finish before extending the storyboard.');
+      return;
+    }
+    let previous = [...storyboard].reverse().find(frame => frame.status === 'done');
+    if (!previous) return;
+    storyboardStopRef.current = false;
+    setIsStoryboardRunning(true);
     setError(null);
-    
+    for (let i = 0; i < count && !storyboardStopRef.current; i++) {
+      const frame: StoryboardFrame = { id: crypto.randomUUID(), status: 'pending', prompt: prompts[i]?.trim() ?? '' };
+      setStoryboard(prev => [...(prev ?? []), frame]);
+      try {
+        const { imageUrl, entryId } = await generateStoryboardFrame(previous, frame.prompt);
+        previous = { ...frame, status: 'done', imageUrl, entryId };
+        const done = previous;
+        setStoryboard(prev => prev?.map(item => item.id === frame.id ? done : item) ?? null);
+      } catch (e: any) {
+        if (isCancelled(e)) {
+          setStoryboard(prev => prev?.filter(item => item.id !== frame.id) ?? null);
+          break;
+        }
+        console.error("Failed to generate storyboard frame", e);
+        setStoryboard(prev => prev?.map(item => item.id === frame.id ? { ...item, status: 'error', error: e.message } : item) ?? null);
+        setError(`Storyboard stopped at frame ${storyboard.length + i + 1}: ${e.message ?? 'unknown error'}`);
+        break;
+      }
+    }
+    setIsStoryboardRunning(false);
+    refreshStorageEstimate();
+  }, [storyboard, isStoryboardRunning, isLoading, generateStoryboardFrame, refreshStorageEstimate]);
+
+  const handleRegenerateStoryboardFrame = useCallback(async (frameId: string) => {
+    if (!storyboard || isStoryboardRunning) return;
+    if (isLoading) {
+      setError('Wait for the current generation to finish before regenerating a frame.');
+      return;
+    }
+    const index = storyboard.findIndex(frame => frame.id === frameId);
+    const source = storyboard[index - 1];
+    if (index < 1 || source.status !== 'done') return;
+    const frame = storyboard[index];
+    setIsStoryboardRunning(true);
+    setStoryboard(prev => prev?.map(item => item.id === frameId ? { ...item, status: 'pending', error: undefined } : item) ?? null);
+    try {
+      const { imageUrl, entryId } = await generateStoryboardFrame(source, frame.prompt);
+      setStoryboard(prev => prev?.map(item => item.id === frameId ? { ...item, status: 'done', imageUrl, entryId } : item) ?? null);
+    } catch (e: any) {
+      if (isCancelled(e)) {
+        setStoryboard(prev => prev?.map(item => item.id === frameId ? frame : item) ?? null);
+        setIsStoryboardRunning(false);
+        return;
+      }
+      console.error("Failed to regenerate storyboard frame", e);
+      setStoryboard(prev => prev?.map(item => item.id === frameId ? { ...item, status: 'error', error: e.message } : item) ?? null);
+      setError(`Failed to regenerate frame ${index + 1}: ${e.message ?? 'unknown error'}`);
+    }
+    setIsStoryboardRunning(false);
+    refreshStorageEstimate();
+  }, [storyboard, isStoryboardRunning, isLoading, generateStoryboardFrame, refreshStorageEstimate]);
+
+  const handleStartChat = useCallback(async () => {
+    if (!generatedImage) return;
+    try {
+      const blob = await (await fetch(generatedImage)).blob();
+      const entry = history.find(item => item.id === generatedEntryId);
+      setChatSession({
+        baseImage: {
+          base64: await fileToBase64(blob),
+          mimeType: blob.type,
+          name: entry?.fileName ?? `edited-${originalImage?.name ?? 'image.png'}`,
+          historyId: generatedEntryId,
+        },
+        turns: [],
+      });
+      setChatError(null);
+    } catch (e) {
+      console.error("Failed to start a conversation", e);
+      setError('Could not read the current image to start a conversation.');
+    }
+  }, [generatedImage, generatedEntryId, history, originalImage]);
+
+  // Sends the next turn of the conversation. Earlier turns go along as context, so follow-ups like
+  // "now make the sky darker" apply to the latest image. Each returned image is saved to history as a
+  // child of the image it was edited from and becomes the current result.
+  const handleSendChat = useCallback(async (text: string): Promise<boolean> => {
+    if (!chatSession || isChatting) return false;
+    setChatError(null);
+    let reservation: QuotaReservation;
+    try {
+      reservation = await reserveGenerations(1, providerId);
+    } catch (e: any) {
+      console.error("Failed to reserve a generation for the conversation", e);
+      setChatError(`Could not check the generation quota: ${e.message ?? 'unknown error'}`);
+      return false;
+    }
+    setQuotaStatus(reservation.status);
+    if (reservation.granted === 0) {
+      setChatError(`You have used all ${reservation.status.limit} generations. More will be available at ${new Date(reservation.status.resetAt).toLocaleString()}.`);
+      return false;
+    }
+
+    const provider = getImageProvider(providerId);
+    const effectiveNegativePrompt = combineNegativePrompts(negativePrompt, presets.find(preset => preset.id === activeNegativeId)?.text);
+    const { baseImage, turns } = chatSession;
+    const attachment = turns.length === 0 ? { base64: baseImage.base64, mimeType: baseImage.mimeType } : undefined;
+    const userTurn: ChatTurn = { id: crypto.randomUUID(), role: 'user', text, image: attachment };
+    const parentId = getChatImage(chatSession).entryId;
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    setChatSession(prev => prev && { ...prev, turns: [...prev.turns, userTurn] });
+    setIsChatting(true);
+    const startedAt = Date.now();
+
+    try {
+      const reply = await runRequest(
+        (signal, onSent) => provider.chat({
+          prompt: text,
+          negativePrompt: effectiveNegativePrompt,
+          aspectRatio,
+          history: toChatHistory(turns, MAX_CHAT_IMAGES - (attachment ? 1 : 0)),
+          image: attachment,
+        }, { signal, onSent }),
+        requestSettings,
+        controller.signal
+      );
+      if (controller.signal.aborted) {
+        throw new RequestCancelledError();
+      }
+
+      let entryId: string | null = null;
+      if (reply.image) {
+        try {
+          const { entry, evictedIds } = await saveHistoryEntry({
+            blob: base64ToBlob(reply.image.base64, reply.image.mimeType),
+            fileName: `chat-${baseImage.name}`,
+            request: {
+              mode: 'edit',
+              prompt: text,
+              negativePrompt: effectiveNegativePrompt,
+              aspectRatio,
+              sourceImageName: baseImage.name,
+              parentId,
+              model: reply.model,
+              startedAt,
+              durationMs: Date.now() - startedAt,
+            },
+          });
+          entryId = entry.id;
+          setHistory(prev => [entry, ...prev.filter(item => !evictedIds.includes(item.id))]);
+        } catch (e: any) {
+          console.error("Failed to save conversation turn to history", e);
+          setChatError(`The image was generated but could not be saved to history: ${e.message ?? 'unknown error'}`);
+        }
+        setGeneratedImage(`data:${reply.image.mimeType};base64,${reply.image.base64}`);
+        setGeneratedEntryId(entryId);
+        setRating(0);
+        setVariations([]);
+        setIsAdjusting(false);
+      }
+      setGenerationLog(recordGeneration(reply.image
+        ? { provider: provider.id, mode: 'edit', aspectRatio, model: reply.model, template: null, outcome: 'success', entryId }
+        : { provider: provider.id, mode: 'edit', aspectRatio, model: reply.model, template: null, outcome: 'failure', entryId: null, error: 'The model replied with text only.' }));
+      const modelTurn: ChatTurn = {
+        id: crypto.randomUUID(),
+        role: 'model',
+        text: reply.text ?? undefined,
+        image: reply.image ? { base64: reply.image.base64, mimeType: reply.image.mimeType } : undefined,
+        entryId,
+      };
+      setChatSession(prev => prev && { ...prev, turns: [...prev.turns, modelTurn] });
+      refreshStorageEstimate();
+      return true;
+    } catch (e: any) {
+      // The unanswered prompt is taken back out so the thread stays a valid conversation to resend.
+      setChatSession(prev => prev && { ...prev, turns: prev.turns.filter(turn => turn.id !== userTurn.id) });
+      if (!isCancelled(e)) {
+        console.error("Conversation turn failed", e);
+        const classified = toGenerationError(e);
+        setChatError(classified.message);
+        setGenerationLog(recordGeneration({ provider: provider.id, mode: 'edit', aspectRatio, model: null, template: null, outcome: 'failure', entryId: null, error: classified.message }));
+      }
+      try {
+        setQuotaStatus(await refundGenerations(reservation, 1));
+      } catch (refundError) {
+        console.error("Failed to refund generation for failed conversation turn", refundError);
+      }
+      return false;
+    } finally {
+      if (chatAbortRef.current === controller) {
+        chatAbortRef.current = null;
+      }
+      setIsChatting(false);
+    }
+  }, [chatSession, isChatting, providerId, negativePrompt, presets, activeNegativeId, aspectRatio, requestSettings, refreshStorageEstimate]);
+
+  // Going back to a turn makes its image the current result; later turns leave the conversation
+  // but their images stay in history.
+  const handleRevertChat = useCallback((turnId: string | null) => {
+    if (!chatSession || isChatting) return;
+    const reverted = revertChatSession(chatSession, turnId);
+    const { image, entryId } = getChatImage(reverted);
+    setChatSession(reverted);
+    setGeneratedImage(`data:${image.mimeType};base64,${image.base64}`);
+    setGeneratedEntryId(entryId);
+    setRating(history.find(item => item.id === entryId)?.rating ?? 0);
+    setVariations([]);
+    setChatError(null);
+  }, [chatSession, isChatting, history]);
+
+  const handleCloseChat = useCallback(() => {
+    chatAbortRef.current?.abort();
+    chatAbortRef.current = null;
+    setChatSession(null);
+    setChatError(null);
+  }, []);
+
+  const handleSelectVariation = useCallback((variation: BatchVariation) => {
+    if (!variation.imageUrl) return;
+    setGeneratedImage(variation.imageUrl);
+    setGeneratedEntryId(variation.entryId ?? null);
+    setRating(history.find(item => item.id === variation.entryId)?.rating ?? 0);
+  }, [history]);
+
+  const handleSaveAdjusted = useCallback(async (image: AdjustedImage) => {
+    const parent = history.find(item => item.id === generatedEntryId) ?? null;
+    const startedAt = Date.now();
+    try {
+      const { entry, evictedIds } = await saveHistoryEntry({
+        blob: base64ToBlob(image.base64, image.mimeType),
+        fileName: `adjusted-${parent?.fileName.replace(/\.\w+$/, '') ?? 'image'}.png`,
+        request: {
+          mode: 'adjust',
+          prompt: image.description,
+          negativePrompt: '',
+          aspectRatio: aspectRatioFromSize(image.width, image.height),
+          sourceImageName: parent?.fileName ?? null,
+          parentId: parent?.id ?? null,
+          model: 'local-adjustments',
+          startedAt,
+          durationMs: 0,
+        },
+      });
+      setHistory(prev => [entry, ...prev.filter(item => !evictedIds.includes(item.id))]);
+      setGeneratedImage(`data:${image.mimeType};base64,${image.base64}`);
+      setGeneratedEntryId(entry.id);
+      setRating(0);
+      setIsAdjusting(false);
+    } catch (e: any) {
+      console.error("Failed to save adjusted image", e);
+      setError(`The adjusted image could not be saved to history: ${e.message ?? 'unknown error'}`);
+    }
+    refreshStorageEstimate();
+  }, [history, generatedEntryId, refreshStorageEstimate]);
+
+  const handleUseAdjustedAsInput = useCallback((image: AdjustedImage) => {
+    const parent = history.find(item => item.id === generatedEntryId);
+    setOriginalImage({
+      base64: image.base64,
+      mimeType: image.mimeType,
+      name: `adjusted-${parent?.fileName.replace(/\.\w+$/, '') ?? 'image'}.png`,
+      previewUrl: `data:${image.mimeType};base64,${image.base64}`,
+    });
+    setIsAdjusting(false);
+    setIsMaskEditing(false);
+    setIsOutpainting(false);
     createSectionRef.current?.scrollIntoView({ behavior: 'smooth' });
-    
-    await performGeneration(extendPrompt, extendNegativePrompt, aspectRatio, newOriginalImage);
+  }, [history, generatedEntryId]);
 
-  }, [generatedImage, originalImage, aspectRatio, isLoading, performGeneration]);
+  const handleUpdateHistoryItem = useCallback(async (id: string, update: HistoryEntryUpdate) => {
+    try {
+      const updated = await updateHistoryEntry(id, update);
+      if (updated) {
+        setHistory(prev => prev.map(item => item.id === updated.id ? updated : item));
+      }
+    } catch (e) {
+      console.error("Failed to update history entry", e);
+      setError('The change could not be saved.');
+    }
+  }, []);
+
+  const handleRateHistoryItem = useCallback(async (id: string, newRating: number) => {
+    if (id === generatedEntryId) {
+      setRating(newRating);
+    }
+    await handleUpdateHistoryItem(id, { rating: newRating });
+  }, [generatedEntryId, handleUpdateHistoryItem]);
+
+  const handleUpdateCheckedItems = useCallback(async (getUpdate: (entry: HistoryEntry) => HistoryEntryUpdate) => {
+    const targets = history.filter(item => checkedIds.has(item.id));
+    await Promise.all(targets.map(item => handleUpdateHistoryItem(item.id, getUpdate(item))));
+  }, [history, checkedIds, handleUpdateHistoryItem]);
+
+  const handleDeleteHistoryItems = useCallback(async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const message = ids.length === 1
+      ? 'Delete this image from history? This action cannot be undone.'
+      : `Delete ${ids.length} images from history? This action cannot be undone.`;
+    if (!window.confirm(message)) return;
+
+    const deleted = new Set<string>();
+    try {
+      for (const id of ids) {
+        await deleteHistoryEntry(id);
+        deleted.add(id);
+      }
+    } catch (e) {
+      console.error("Failed to delete history entry", e);
+      setError('Some images could not be deleted from browser storage.');
+    }
+    setHistory(prev => prev.filter(item => !deleted.has(item.id)));
+    setCheckedIds(prev => new Set([...prev].filter(id => !deleted.has(id))));
+    setSelectedEntryId(prev => prev && deleted.has(prev) ? null : prev);
+    setGeneratedEntryId(prev => prev && deleted.has(prev) ? null : prev);
+    refreshStorageEstimate();
+  }, [refreshStorageEstimate]);
+
+  const handleRatingChange = useCallback(async (newRating: number) => {
+    setRating(newRating);
+    if (generatedEntryId) {
+      await handleRateHistoryItem(generatedEntryId, newRating);
+    }
+  }, [generatedEntryId, handleRateHistoryItem]);
+
+  const handleLoadSettings = useCallback(async (entry: HistoryEntry) => {
+    const { request } = entry;
+    if (!request || isLoading) return;
+
+    setPrompt(request.prompt);
+    setNegativePrompt(request.negativePrompt);
+    setAspectRatio(request.aspectRatio);
+    setAppliedTemplate(request.template ?? null);
+    setError(null);
+
+    if (request.mode === 'create') {
+      setOriginalImage(null);
+    } else if (request.parentId) {
+      try {
+        const blob = await loadHistoryImage(request.parentId);
+        if (blob) {
+          setOriginalImage({
+            base64: await fileToBase64(blob),
+            mimeType: blob.type,
+            name: request.sourceImageName ?? 'image.png',
+            previewUrl: URL.createObjectURL(blob),
+            historyId: request.parentId,
+          });
+        } else {
+          setError('The source image for these settings is no longer in history. Upload it again to reproduce the edit.');
+        }
+      } catch (e) {
+        console.error("Failed to load source image", e);
+        setError('Failed to load the source image from history.');
+      }
+    } else if (!originalImage || originalImage.name !== request.sourceImageName) {
+      setError(`These settings were applied to an uploaded image (${request.sourceImageName ?? 'unknown'}). Upload it again to reproduce the edit.`);
+    }
+
+    createSectionRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [isLoading, originalImage]);
+
+  const loadEntryAsImage = useCallback(async (entry: HistoryEntry): Promise<OriginalImage | null> => {
+    try {
+      const blob = await loadHistoryImage(entry.id);
+      if (!blob) {
+        setError('This image is no longer available in browser storage.');
+        return null;
+      }
+      const base64 = await fileToBase64(blob);
+      return {
+        base64,
+        mimeType: blob.type,
+        name: entry.fileName,
+        previewUrl: `data:${blob.type};base64,${base64}`,
+        historyId: entry.id,
+      };
+    } catch (e) {
+      console.error("Failed to load history image", e);
+      setError('Failed to load the image from history.');
+      return null;
+    }
+  }, []);
+
+  const handleJumpToVersion = useCallback(async (entry: HistoryEntry) => {
+    if (isLoading) return;
+    const image = await loadEntryAsImage(entry);
+    if (!image) return;
+    await handleLoadSettings(entry);
+    setGeneratedImage(image.previewUrl);
+    setGeneratedEntryId(entry.id);
+    setVariations([]);
+    setRating(entry.rating);
+  }, [isLoading, loadEntryAsImage, handleLoadSettings]);
+
+  const handleExtendFromVersion = useCallback(async (entry: HistoryEntry) => {
+    if (isLoading) return;
+    const image = await loadEntryAsImage(entry);
+    if (image) {
+      await extendFrom({ ...image, name: `extended-${entry.fileName}` });
+    }
+  }, [isLoading, loadEntryAsImage, extendFrom]);
+
+  const handleEditFromVersion = useCallback(async (entry: HistoryEntry) => {
+    if (isLoading) return;
+    try {
+      const blob = await loadHistoryImage(entry.id);
+      if (!blob) {
+        setError('This image is no longer available in browser storage.');
+        return;
+      }
+      if (await ingestImage(blob, entry.fileName, entry.id)) {
+        createSectionRef.current?.scrollIntoView({ behavior: 'smooth' });
+      }
+    } catch (e) {
+      console.error("Failed to load history image", e);
+      setError('Failed to load the image from history.');
+    }
+  }, [isLoading, ingestImage]);
 
   const handleReset = useCallback(() => {
     if (window.confirm('Are you sure you want to reset the application? This will clear the current image, prompts, and all history.')) {
+        generationAbortRef.current?.abort();
+        generationAbortRef.current = null;
+        setGenerationError(null);
         setOriginalImage(null);
         setGeneratedImage(null);
+        setVariations([]);
+        setReferenceImages([]);
         setPrompt('');
         setNegativePrompt('');
         setAspectRatio('1:1');
         setIsLoading(false);
         setError(null);
         setRating(0);
-        setHistory([]);
+        setGeneratedEntryId(null);
+        setIsAdjusting(false);
+        storyboardStopRef.current = true;
+        setStoryboard(null);
+        jobAbortRef.current.forEach(controller => controller.abort());
+        setJobs([]);
+        chatAbortRef.current?.abort();
+        chatAbortRef.current = null;
+        setChatSession(null);
+        setChatError(null);
+        setAppliedTemplate(null);
+        clearGenerationLog();
+        setGenerationLog([]);
+        clearPersistedHistory();
         if (fileInputRef.current) {
             fileInputRef.current.value = '';
         }
     }
-  }, []);
+  }, [clearPersistedHistory]);
 
-  const isGenerateDisabled = isLoading || !prompt.trim() || remainingGenerations <= 0;
-  const aspectRatioOptions: AspectRatio[] = ['1:1', '16:9', '9:16'];
+  const selectedEntry = history.find(item => item.id === selectedEntryId) ?? null;
+  const visibleHistory = filterHistory(history, historyFilter);
+  const tagSuggestions = collectLabels(history, 'tags');
+  const collectionSuggestions = collectLabels(history, 'collections');
+  const checkedEntries = history.filter(item => checkedIds.has(item.id));
+  const modalIndex = modalView?.entryId ? visibleHistory.findIndex(item => item.id === modalView.entryId) : -1;
+  const selectedParentEntry = selectedEntry?.request?.parentId
+    ? history.find(item => item.id === selectedEntry.request?.parentId) ?? null
+    : null;
+
+  const isGenerateDisabled = isLoading || !prompt.trim() || quotaStatus?.remaining === 0;
+  const provider = getImageProvider(providerId);
+  const aspectRatioOptions: AspectRatio[] = provider.capabilities.aspectRatios;
+  const isCustomRatio = !aspectRatioOptions.includes(aspectRatio);
+  const activeNegativePreset = presets.find(preset => preset.id === activeNegativeId) ?? null;
+
+  const handleProviderChange = (id: ImageProviderId) => {
+    setProviderId(id);
+    setSelectedProviderId(id);
+    const { aspectRatios, customAspectRatios } = getImageProvider(id).capabilities;
+    if (!aspectRatios.includes(aspectRatio) && !customAspectRatios) {
+      setAspectRatio(aspectRatios[0]);
+    }
+  };
 
   return (
     <div className="min-h-screen bg-gray-900 text-white font-sans p-4 sm:p-6 lg:p-8">
@@ -214,7 +1511,22 @@ const App: React.FC = () => {
         </p>
       </header>
       
-      <div className="max-w-7xl mx-auto mb-6 flex justify-end">
+      <div className="max-w-7xl mx-auto mb-6 flex justify-between items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Provider
+          <select
+            value={providerId}
+            onChange={(e) => handleProviderChange(e.target.value as ImageProviderId)}
+            disabled={isLoading}
+            className="bg-gray-800 border border-gray-600 rounded-md text-gray-200 text-sm py-1.5 focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50"
+          >
+            {listImageProviders().map((option) => (
+              <option key={option.id} value={option.id} disabled={!option.isAvailable()}>
+                {option.name}{option.isAvailable() ? '' : ' (unavailable)'}
+              </option>
+            ))}
+          </select>
+        </label>
         <button
             onClick={handleReset}
             className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-gray-300 font-semibold rounded-lg hover:bg-gray-600 hover:text-white transition-colors text-sm"
@@ -226,38 +1538,215 @@ const App: React.FC = () => {
       </div>
 
       <main className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-2 gap-8">
-        <section ref={createSectionRef} className="bg-gray-800/50 p-6 rounded-2xl border border-gray-700 flex flex-col">
+        <section
+          ref={createSectionRef}
+          onDragOver={(e) => {
+            if (!hasDroppableImage(e.dataTransfer)) return;
+            e.preventDefault();
+            setIsDraggingImage(true);
+          }}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingImage(false);
+          }}
+          onDrop={handleDropImage}
+          className={`bg-gray-800/50 p-6 rounded-2xl border flex flex-col transition-colors ${isDraggingImage ? 'border-cyan-400 bg-cyan-900/20' : 'border-gray-700'}`}
+        >
           <h2 className="text-2xl font-bold text-gray-200 mb-6">Step 1: Input &amp; Settings</h2>
+          {/* Kept outside the placeholder so "replace image" can open it while an image is loaded. */}
+          <input id="file-upload" name="file-upload" type="file" className="sr-only" accept="image/*" onChange={handleFileChange} ref={fileInputRef} />
           <div className="space-y-6 flex flex-col flex-grow">
             <div className='flex-grow flex flex-col'>
-                {!originalImage ? (
+                {isWebcamOpen ? (
+                    <WebcamCapture
+                        onCapture={(blob) => ingestImage(blob, `webcam-${new Date().toISOString().replace(/[:.]/g, '-')}.jpg`)}
+                        onClose={() => setIsWebcamOpen(false)}
+                    />
+                ) : !originalImage ? (
                     <div className="flex flex-col flex-grow justify-center items-center h-full p-6 border-2 border-gray-600 border-dashed rounded-md text-center">
                         <UploadIcon className="mx-auto h-16 w-16 text-gray-500" />
                         <label htmlFor="file-upload" className="relative cursor-pointer bg-gray-800 rounded-md font-medium text-cyan-400 hover:text-cyan-300 focus-within:outline-none px-1 mt-4 text-lg">
                             <span>Upload a file</span>
-                            <input id="file-upload" name="file-upload" type="file" className="sr-only" accept="image/*" onChange={handleFileChange} ref={fileInputRef} />
                         </label>
-                        <p className="mt-1 text-sm text-gray-500">Or just describe the image you want to create below.</p>
+                        <p className="mt-1 text-sm text-gray-500">or drop it here, or paste one with Ctrl+V.</p>
+                        <form
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                if (imageUrlDraft.trim()) handleImportImageUrl(imageUrlDraft);
+                            }}
+                            className="mt-4 flex w-full max-w-sm gap-2"
+                        >
+                            <input
+                                type="url"
+                                value={imageUrlDraft}
+                                onChange={(e) => setImageUrlDraft(e.target.value)}
+                                placeholder="https://example.com/photo.jpg"
+                                disabled={isImportingUrl}
+                                className="flex-grow min-w-0 bg-gray-900 border-gray-600 rounded-md text-sm focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50"
+                                aria-label="Image URL"
+                            />
+                            <button
+                                type="submit"
+                                disabled={isLoading || isImportingUrl || !imageUrlDraft.trim()}
+                                className="px-3 py-1 bg-gray-700 text-gray-200 text-sm font-semibold rounded-md hover:bg-gray-600 transition-colors disabled:opacity-50"
+                            >
+                                {isImportingUrl ? 'Importing…' : 'Import URL'}
+                            </button>
+                        </form>
+                        <button
+                            onClick={() => setIsWebcamOpen(true)}
+                            className="mt-3 text-sm text-cyan-400 hover:text-cyan-300"
+                        >
+                            Take a photo with the webcam
+                        </button>
+                        <p className="mt-4 text-sm text-gray-500">Or just describe the image you want to create below.</p>
+                        <label className="mt-4 flex items-center gap-2 text-xs text-gray-400">
+                            Downsize uploads to
+                            <select
+                                value={maxUploadEdge}
+                                onChange={(e) => {
+                                    const maxEdge = Number(e.target.value);
+                                    setMaxUploadEdge(maxEdge);
+                                    setPreprocessMaxEdge(maxEdge);
+                                }}
+                                className="bg-gray-900 border-gray-600 rounded-md text-xs py-0.5 focus:ring-cyan-500 focus:border-cyan-500"
+                            >
+                                {MAX_EDGE_OPTIONS.map(edge => <option key={edge} value={edge}>{edge}px</option>)}
+                            </select>
+                        </label>
                     </div>
-                ) : (
-                    <ImagePreview 
-                        title="Original"
+                ) : isOutpainting ? (
+                    <OutpaintEditor
+                        imageUrl={originalImage.previewUrl}
+                        aspectRatio={aspectRatio}
+                        disabled={isLoading}
+                        onApply={handleOutpaint}
+                        onCancel={() => setIsOutpainting(false)}
+                    />
+                ) : isMaskEditing ? (
+                    <MaskEditor
                         imageUrl={originalImage.previewUrl}
-                        onRemove={handleRemoveImage}
-                        isLoading={isLoading}
+                        strokes={originalImage.maskStrokes ?? []}
+                        disabled={isLoading}
+                        onStrokesChange={handleMaskStrokesChange}
+                        onMaskChange={handleMaskChange}
+                        onDone={() => setIsMaskEditing(false)}
                     />
+                ) : (
+                    <>
+                        <ImagePreview 
+                            title="Original"
+                            imageUrl={originalImage.previewUrl}
+                            onRemove={handleRemoveImage}
+                            isLoading={isLoading}
+                        />
+                        {originalImage.preprocessing && (
+                            <PreprocessSummary info={originalImage.preprocessing} mimeType={originalImage.mimeType} />
+                        )}
+                        {provider.capabilities.maskInput && (
+                            <div className="flex flex-wrap items-center justify-center gap-2 mt-3 text-sm">
+                                <button
+                                    onClick={() => setIsOutpainting(true)}
+                                    disabled={isLoading}
+                                    className="px-3 py-1 bg-gray-700 text-gray-200 font-semibold rounded-md hover:bg-gray-600 transition-colors disabled:opacity-50"
+                                >
+                                    Outpaint to {aspectRatio}
+                                </button>
+                                <button
+                                    onClick={() => setIsMaskEditing(true)}
+                                    disabled={isLoading}
+                                    className="px-3 py-1 bg-gray-700 text-gray-200 font-semibold rounded-md hover:bg-gray-600 transition-colors disabled:opacity-50"
+                                >
+                                    {originalImage.mask ? 'Edit Mask' : 'Paint Mask'}
+                                </button>
+                                {originalImage.mask && (
+                                    <>
+                                        <span className="text-red-300">Only the masked area will change.</span>
+                                        <button onClick={handleRemoveMask} disabled={isLoading} className="text-gray-400 hover:text-white underline disabled:opacity-50">
+                                            Remove
+                                        </button>
+                                    </>
+                                )}
+                            </div>
+                        )}
+                    </>
                 )}
             </div>
+            {provider.capabilities.multiImageInput && (
+              <ReferenceImageList
+                images={referenceImages}
+                maxImages={provider.capabilities.maxInputImages - 1}
+                disabled={isLoading}
+                onAdd={handleAddReferenceImages}
+                onChange={setReferenceImages}
+              />
+            )}
             <div>
-              <h3 className="font-semibold text-gray-300 mb-2">{originalImage ? 'Describe Edit' : 'Describe Image'}</h3>
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="font-semibold text-gray-300">{originalImage ? 'Describe Edit' : 'Describe Image'}</h3>
+                <button
+                  onClick={() => setShowPresets(prev => !prev)}
+                  className="text-sm text-cyan-400 hover:text-cyan-300"
+                  aria-expanded={showPresets}
+                >
+                  {showPresets ? 'Hide presets' : 'Presets'}
+                </button>
+              </div>
+              {showPresets && (
+                <div className="mb-3">
+                  <PresetLibrary
+                    presets={presets}
+                    activeNegativeId={activeNegativeId}
+                    disabled={isLoading}
+                    onPresetsChange={handlePresetsChange}
+                    onActiveNegativeChange={handleActiveNegativeChange}
+                    onApplyTemplate={handleApplyTemplate}
+                    onApplyStyle={handleApplyStyle}
+                    onError={setError}
+                  />
+                </div>
+              )}
               <textarea
+                ref={promptInputRef}
                 rows={3}
                 className="shadow-sm block w-full sm:text-sm border-gray-600 bg-gray-900 rounded-md focus:ring-cyan-500 focus:border-cyan-500 placeholder-gray-500 disabled:opacity-50 transition-all"
                 placeholder={originalImage ? "e.g., 'Add a retro filter', 'Make the background black and white'" : "e.g., 'A photorealistic cat wearing a wizard hat'"}
                 value={prompt}
-                onChange={(e) => setPrompt(e.target.value)}
+                onChange={(e) => {
+                  setPrompt(e.target.value);
+                  // Clearing the prompt starts over, so later generations are no longer attributed to the template.
+                  if (!e.target.value.trim()) setAppliedTemplate(null);
+                }}
                 disabled={isLoading}
               />
+              <div className="flex flex-wrap gap-3 mt-2 text-sm">
+                <button
+                  onClick={() => handlePromptAssist('enhance')}
+                  disabled={isLoading || promptAssist !== null || !prompt.trim()}
+                  className="flex items-center gap-1 text-cyan-400 hover:text-cyan-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <SparklesIcon className="w-4 h-4" /> {promptAssist === 'enhance' ? 'Enhancing…' : 'Enhance prompt'}
+                </button>
+                {originalImage && (
+                  <button
+                    onClick={() => handlePromptAssist('describe')}
+                    disabled={isLoading || promptAssist !== null}
+                    className="flex items-center gap-1 text-cyan-400 hover:text-cyan-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <ImageIcon className="w-4 h-4" /> {promptAssist === 'describe' ? 'Describing…' : 'Describe this image'}
+                  </button>
+                )}
+              </div>
+              {promptSuggestion && (
+                <PromptSuggestionPanel
+                  key={`${promptSuggestion.source}:${promptSuggestion.text}`}
+                  suggestion={promptSuggestion}
+                  onAccept={(text) => {
+                    setPrompt(text);
+                    setPromptSuggestion(null);
+                  }}
+                  onDiscard={() => setPromptSuggestion(null)}
+                />
+              )}
             </div>
              <div>
               <h3 className="font-semibold text-gray-300 mb-2">Negative Prompt <span className="text-gray-500 text-sm">(optional)</span></h3>
@@ -269,6 +1758,11 @@ const App: React.FC = () => {
                 onChange={(e) => setNegativePrompt(e.target.value)}
                 disabled={isLoading}
               />
+              {activeNegativePreset && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Also applying default negatives: <span className="text-gray-400">{activeNegativePreset.name}</span>
+                </p>
+              )}
             </div>
             <div>
               <h3 className="font-semibold text-gray-300 mb-2">Aspect Ratio</h3>
@@ -287,12 +1781,103 @@ const App: React.FC = () => {
                     {ratio}
                   </button>
                 ))}
+                {provider.capabilities.customAspectRatios && (
+                  <button
+                    onClick={() => handleCustomRatioChange(customRatio)}
+                    disabled={isLoading}
+                    className={`flex-1 py-2 px-3 rounded-md text-sm font-semibold transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed ${
+                      isCustomRatio
+                        ? 'bg-cyan-600 text-white'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    Custom
+                  </button>
+                )}
               </div>
+              {isCustomRatio && (
+                <div className="flex items-center gap-2 mt-2 text-sm">
+                  <input
+                    type="number"
+                    min={1}
+                    value={customRatio.width}
+                    onChange={(e) => handleCustomRatioChange({ ...customRatio, width: e.target.value })}
+                    disabled={isLoading}
+                    className="w-20 bg-gray-900 border-gray-600 rounded-md text-sm focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50"
+                    aria-label="Custom ratio width"
+                  />
+                  <span className="text-gray-400">:</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={customRatio.height}
+                    onChange={(e) => handleCustomRatioChange({ ...customRatio, height: e.target.value })}
+                    disabled={isLoading}
+                    className="w-20 bg-gray-900 border-gray-600 rounded-md text-sm focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50"
+                    aria-label="Custom ratio height"
+                  />
+                  <span className="text-gray-500">Current: {aspectRatio}</span>
+                </div>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block">
+                <span className="font-semibold text-gray-300 text-sm">Variations</span>
+                <select
+                  value={variationCount}
+                  onChange={(e) => {
+                    const count = Number(e.target.value);
+                    setVariationCount(count);
+                    setVariationConcurrency(current => Math.min(current, count));
+                  }}
+                  disabled={isLoading}
+                  className="mt-1 block w-full bg-gray-900 border-gray-600 rounded-md text-sm focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50"
+                >
+                  {[1, 2, 3, 4].map(count => <option key={count} value={count}>{count}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="font-semibold text-gray-300 text-sm">Run in parallel</span>
+                <select
+                  value={variationConcurrency}
+                  onChange={(e) => setVariationConcurrency(Number(e.target.value))}
+                  disabled={isLoading || variationCount === 1}
+                  className="mt-1 block w-full bg-gray-900 border-gray-600 rounded-md text-sm focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50"
+                >
+                  {[1, 2, 3, 4].filter(limit => limit <= variationCount).map(limit => <option key={limit} value={limit}>{limit}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="font-semibold text-gray-300 text-sm">Timeout per attempt</span>
+                <select
+                  value={requestSettings.timeoutMs / 1000}
+                  onChange={(e) => handleRequestSettingsChange({ timeoutMs: Number(e.target.value) * 1000 })}
+                  disabled={isLoading}
+                  className="mt-1 block w-full bg-gray-900 border-gray-600 rounded-md text-sm focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50"
+                >
+                  {TIMEOUT_OPTIONS_SECONDS.map(seconds => <option key={seconds} value={seconds}>{seconds < 60 ? `${seconds} s` : `${seconds / 60} min`}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="font-semibold text-gray-300 text-sm">Retries on transient errors</span>
+                <select
+                  value={requestSettings.maxRetries}
+                  onChange={(e) => handleRequestSettingsChange({ maxRetries: Number(e.target.value) })}
+                  disabled={isLoading}
+                  className="mt-1 block w-full bg-gray-900 border-gray-600 rounded-md text-sm focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50"
+                >
+                  {RETRY_OPTIONS.map(count => <option key={count} value={count}>{count === 0 ? 'None' : count}</option>)}
+                </select>
+              </label>
             </div>
             <div className="pt-2">
-                <p className="text-center text-sm text-gray-400 mb-2">
-                  You have {remainingGenerations} generation{remainingGenerations !== 1 ? 's' : ''} left today.
-                </p>
+                {quotaStatus && (
+                  <p className="text-center text-sm text-gray-400 mb-2" title={quotaStatus.source === 'local' ? 'No quota server is running, so this count is kept in this browser only.' : undefined}>
+                    You have {quotaStatus.remaining} of {quotaStatus.limit} generation{quotaStatus.limit !== 1 ? 's' : ''} left ({quotaStatus.policy}
+                    {quotaStatus.source === 'local' ? ', local estimate' : ''}).
+                    {quotaStatus.remaining < quotaStatus.limit && ` More at ${new Date(quotaStatus.resetAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`}
+                  </p>
+                )}
                 <button
                     type="button"
                     onClick={handleGenerate}
@@ -302,7 +1887,36 @@ const App: React.FC = () => {
                 <WandIcon className="w-5 h-5 mr-2" />
                 {originalImage ? 'Generate Image' : 'Create Image'}
                 </button>
+                <button
+                    type="button"
+                    onClick={handleQueueJob}
+                    disabled={!prompt.trim()}
+                    className="w-full mt-2 py-2 px-4 bg-gray-700 text-gray-200 text-sm font-semibold rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    title="Run this request in the background and keep editing"
+                >
+                Add to queue
+                </button>
                 {error && <p className="text-red-400 text-sm mt-2 text-center">{error}</p>}
+                {generationError && !isLoading && (
+                  <GenerationErrorNotice
+                    error={generationError}
+                    resetAt={quotaStatus?.resetAt}
+                    onDismiss={() => setGenerationError(null)}
+                    onAction={{
+                      retry: prompt.trim() ? handleGenerate : undefined,
+                      'edit-prompt': () => {
+                        promptInputRef.current?.focus();
+                        promptInputRef.current?.select();
+                      },
+                      'replace-image': originalImage ? () => fileInputRef.current?.click() : undefined,
+                      'switch-provider': providerId !== 'mock' ? () => {
+                        handleProviderChange('mock');
+                        setGenerationError(null);
+                      } : undefined,
+                      wait: () => fetchQuotaStatus().then(setQuotaStatus).catch((e) => console.error("Failed to refresh generation quota", e)),
+                    }}
+                  />
+                )}
             </div>
           </div>
         </section>
@@ -311,19 +1925,60 @@ const App: React.FC = () => {
         <section className="bg-gray-800/50 p-6 rounded-2xl border border-gray-700 flex flex-col">
             <h2 className="text-2xl font-bold text-gray-200 mb-6">Step 2: Result</h2>
             <div className="flex-grow">
-                <ImagePreview 
-                  title="Generated" 
-                  imageUrl={generatedImage} 
-                  isLoading={isLoading} 
-                  onDownload={() => generatedImage && handleDownload(generatedImage, `edited-${originalImage?.name ?? 'image.png'}`)}
-                  onClick={() => generatedImage && setModalImageUrl(generatedImage)}
-                />
+                {isAdjusting && generatedImage ? (
+                  <ImageAdjuster
+                    imageUrl={generatedImage}
+                    disabled={isLoading}
+                    onUseAsInput={handleUseAdjustedAsInput}
+                    onSaveToHistory={handleSaveAdjusted}
+                    onClose={() => setIsAdjusting(false)}
+                  />
+                ) : (
+                  <ImagePreview 
+                    title="Generated" 
+                    imageUrl={generatedImage} 
+                    isLoading={isLoading && !generatedImage} 
+                    onDownload={handleExportGenerated}
+                    onClick={() => generatedImage && openImageInModal(
+                      generatedImage,
+                      'Generated',
+                      originalImage ? { url: originalImage.previewUrl, label: `Original: ${originalImage.name}` } : null
+                    )}
+                  />
+                )}
             </div>
+            {isLoading && (
+                <div className="mt-4">
+                    <RequestStatus variations={variations} onCancel={handleCancelGeneration} />
+                </div>
+            )}
+            {variations.length > 1 && (
+                <div className="mt-4">
+                    <VariationGrid
+                      variations={variations}
+                      selectedEntryId={generatedEntryId}
+                      selectedImageUrl={generatedImage}
+                      onSelect={handleSelectVariation}
+                    />
+                </div>
+            )}
+            {chatSession && (
+                <ChatThread
+                  session={chatSession}
+                  isSending={isChatting}
+                  error={chatError}
+                  onSend={handleSendChat}
+                  onCancel={() => chatAbortRef.current?.abort()}
+                  onRevert={handleRevertChat}
+                  onOpenImage={(url) => openImageInModal(url, 'Conversation')}
+                  onClose={handleCloseChat}
+                />
+            )}
             {generatedImage && !isLoading && (
                 <div className='mt-6 space-y-4'>
                     <div className="flex items-center justify-center space-x-4">
                         <button
-                            onClick={() => handleDownload(generatedImage, `edited-${originalImage?.name ?? 'image.png'}`)}
+                            onClick={handleExportGenerated}
                             className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-gray-700 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                             disabled={isLoading}
                         >
@@ -344,58 +1999,349 @@ const App: React.FC = () => {
                             <RetryIcon className="w-5 h-5"/> Retry
                         </button>
                     </div>
+                    {!isAdjusting && (
+                        <button
+                            onClick={() => setIsAdjusting(true)}
+                            className="w-full px-4 py-2 bg-gray-700 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors text-sm"
+                        >
+                            Adjust (crop, rotate, color, text)
+                        </button>
+                    )}
+                    {!chatSession && (
+                        <button
+                            onClick={handleStartChat}
+                            disabled={isLoading}
+                            className="w-full px-4 py-2 bg-gray-700 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Refine in a conversation
+                        </button>
+                    )}
+                    {!storyboard && (
+                        <button
+                            onClick={handleOpenStoryboard}
+                            className="w-full px-4 py-2 bg-gray-700 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors text-sm"
+                        >
+                            Start a storyboard from this image
+                        </button>
+                    )}
                      <p className="text-xs text-gray-400 text-center italic px-4 pt-2">
                         Note: If the scene is NOT naturally going to next level, please change the prompt.
                     </p>
                     <div>
                       <h3 className="text-center font-semibold text-gray-300 mb-2">Rate the result</h3>
-                      <StarRating rating={rating} onRatingChange={setRating} disabled={!generatedImage || isLoading}/>
+                      <StarRating rating={rating} onRatingChange={handleRatingChange} disabled={!generatedImage || isLoading}/>
                     </div>
                 </div>
             )}
         </section>
       </main>
 
-      {history.length > 0 && (
-        <section className="max-w-7xl mx-auto mt-12">
-            <div className="flex justify-between items-center mb-6">
-              <h2 className="text-2xl font-bold text-gray-200">History</h2>
+      {jobs.length > 0 && (
+        <JobQueue
+          jobs={jobs}
+          concurrency={queueConcurrency}
+          pausedUntil={quotaStatus && quotaStatus.remaining <= 0 ? quotaStatus.resetAt : null}
+          onConcurrencyChange={setQueueConcurrency}
+          onMove={handleMoveJob}
+          onCancel={handleCancelJob}
+          onRetry={handleRetryJob}
+          onOpen={(job) => job.imageUrl && openImageInModal(job.imageUrl, job.prompt)}
+          onClearFinished={() => setJobs(prev => prev.filter(job => !isJobFinished(job)))}
+        />
+      )}
+
+      {storyboard && (
+        <Storyboard
+          frames={storyboard}
+          isRunning={isStoryboardRunning}
+          defaultPrompt={getExtendPreset().prompt}
+          onRun={handleRunStoryboard}
+          onStop={() => {
+            storyboardStopRef.current = true;
+            generationAbortRef.current?.abort();
+          }}
+          onRegenerate={handleRegenerateStoryboardFrame}
+          onChange={setStoryboard}
+          onOpenFrame={(url) => openImageInModal(url, 'Storyboard frame')}
+          onClose={() => setStoryboard(null)}
+        />
+      )}
+
+      <section className="max-w-7xl mx-auto mt-12">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-200">History</h2>
+            {storageEstimate && storageEstimate.quota > 0 && (
+              <p className={`text-xs mt-1 ${storageEstimate.usage / storageEstimate.quota > 0.9 ? 'text-yellow-400' : 'text-gray-500'}`}>
+                Using {(storageEstimate.usage / 1024 / 1024).toFixed(1)} MB of {(storageEstimate.quota / 1024 / 1024).toFixed(0)} MB browser storage
+              </p>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center justify-end gap-2 text-sm">
+            {history.length > 0 && (
+              <>
+                {checkedIds.size > 0 ? (
+                  <>
+                    <span className="text-gray-400">{checkedIds.size} selected</span>
+                    <button onClick={() => setCheckedIds(new Set())} className="px-3 py-1 bg-gray-700 text-gray-200 font-semibold rounded-lg hover:bg-gray-600 transition-colors">
+                      Clear selection
+                    </button>
+                    {checkedIds.size === 2 && (
+                      <button
+                        onClick={() => {
+                          const [newer, older] = checkedEntries;
+                          openHistoryInModal(newer, older);
+                        }}
+                        className="px-3 py-1 bg-gray-700 text-gray-200 font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+                      >
+                        Compare
+                      </button>
+                    )}
+                    <button
+                      onClick={() => {
+                        // Favorite the selection unless all of it already is, in which case unfavorite it.
+                        const favorite = !checkedEntries.every(item => item.favorite);
+                        handleUpdateCheckedItems(() => ({ favorite }));
+                      }}
+                      className="px-3 py-1 bg-gray-700 text-gray-200 font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                      {checkedEntries.every(item => item.favorite) ? 'Unfavorite' : 'Favorite'}
+                    </button>
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        const added = parseLabels(collectionDraft);
+                        if (added.length === 0) return;
+                        handleUpdateCheckedItems(item => ({ collections: mergeLabels(item.collections, added) }));
+                        setCollectionDraft('');
+                      }}
+                      className="flex items-center gap-1"
+                    >
+                      <input
+                        type="text"
+                        value={collectionDraft}
+                        list="history-collections"
+                        onChange={(e) => setCollectionDraft(e.target.value)}
+                        placeholder="Collection"
+                        className="w-32 bg-gray-900 border-gray-600 rounded-md text-sm text-gray-200 py-1 focus:ring-cyan-500 focus:border-cyan-500"
+                        aria-label="Collection to add the selected images to"
+                      />
+                      <datalist id="history-collections">
+                        {collectionSuggestions.map(collection => <option key={collection} value={collection} />)}
+                      </datalist>
+                      <button
+                        type="submit"
+                        disabled={!collectionDraft.trim()}
+                        className="px-3 py-1 bg-gray-700 text-gray-200 font-semibold rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+                      >
+                        Add to collection
+                      </button>
+                    </form>
+                    <button
+                      onClick={() => handleExportArchive(checkedEntries)}
+                      disabled={isArchiving}
+                      className="px-3 py-1 bg-cyan-600 text-white font-semibold rounded-lg hover:bg-cyan-700 transition-colors disabled:opacity-50"
+                    >
+                      Export selected
+                    </button>
+                    <button
+                      onClick={() => handleDeleteHistoryItems([...checkedIds])}
+                      className="px-3 py-1 bg-red-600/20 text-red-400 font-semibold rounded-lg hover:bg-red-600/40 transition-colors"
+                    >
+                      Delete selected
+                    </button>
+                  </>
+                ) : (
+                  <button onClick={() => setCheckedIds(new Set(visibleHistory.map(item => item.id)))} className="px-3 py-1 bg-gray-700 text-gray-200 font-semibold rounded-lg hover:bg-gray-600 transition-colors">
+                    Select all
+                  </button>
+                )}
+                <button
+                  onClick={() => handleExportArchive(history)}
+                  disabled={isArchiving}
+                  className="px-3 py-1 bg-gray-700 text-gray-200 font-semibold rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+                >
+                  Export all (ZIP)
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => archiveInputRef.current?.click()}
+              disabled={isArchiving}
+              className="px-3 py-1 bg-gray-700 text-gray-200 font-semibold rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+            >
+              Import archive
+            </button>
+            <input
+              ref={archiveInputRef}
+              type="file"
+              accept="application/zip,.zip"
+              className="sr-only"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImportArchive(file);
+                e.target.value = '';
+              }}
+            />
+            {history.length > 0 && (
               <button
                 onClick={handleClearHistory}
-                className="flex items-center gap-2 px-3 py-1 bg-red-600/20 text-red-400 font-semibold rounded-lg hover:bg-red-600/40 transition-colors text-sm"
+                className="flex items-center gap-2 px-3 py-1 bg-red-600/20 text-red-400 font-semibold rounded-lg hover:bg-red-600/40 transition-colors"
                 aria-label="Clear all history"
               >
                 <TrashIcon className="w-4 h-4" />
                 Clear All
               </button>
-            </div>
-            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
-                {history.map((item) => (
-                    <div key={item.id} className="group relative bg-gray-800 rounded-lg overflow-hidden border border-gray-700">
+            )}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 mb-6 text-sm">
+          <HistoryFilters history={history} filter={historyFilter} onChange={setHistoryFilter} />
+          {visibleHistory.length !== history.length && (
+            <span className="text-gray-500">Showing {visibleHistory.length} of {history.length}</span>
+          )}
+          <button
+            onClick={() => setShowAnalytics(prev => !prev)}
+            className={`ml-auto px-3 py-1 font-semibold rounded-lg transition-colors ${showAnalytics ? 'bg-cyan-600 text-white hover:bg-cyan-700' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+          >
+            Analytics
+          </button>
+        </div>
+        {showAnalytics && (
+          <div className="mb-6">
+            <RatingAnalytics history={history} log={generationLog} onClose={() => setShowAnalytics(false)} />
+          </div>
+        )}
+        {selectedEntry && (
+          <div className="mb-6">
+            <GenerationDetails
+              entry={selectedEntry}
+              parentEntry={selectedParentEntry}
+              onLoadSettings={handleLoadSettings}
+              onSelectEntry={(entry) => setSelectedEntryId(entry.id)}
+              tagSuggestions={tagSuggestions}
+              collectionSuggestions={collectionSuggestions}
+              onUpdate={(update) => handleUpdateHistoryItem(selectedEntry.id, update)}
+              onDelete={() => handleDeleteHistoryItems([selectedEntry.id])}
+              onClose={() => setSelectedEntryId(null)}
+            />
+          </div>
+        )}
+        {history.length === 0 ? (
+          <p className="text-sm text-gray-500">No images yet. Generated images appear here, or import a previously exported archive.</p>
+        ) : visibleHistory.length === 0 ? (
+          <p className="text-sm text-gray-500">No images match these filters.</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[1fr_20rem] gap-6 items-start">
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 xl:grid-cols-5 gap-4">
+                {visibleHistory.map((item) => (
+                    <div key={item.id} className={`group relative bg-gray-800 rounded-lg overflow-hidden border ${item.id === selectedEntryId || checkedIds.has(item.id) ? 'border-cyan-500' : 'border-gray-700'}`}>
                         <img 
-                          src={item.imageUrl} 
+                          src={item.thumbnailUrl} 
                           alt="Generated" 
+                          loading="lazy"
                           className="aspect-square w-full object-cover cursor-pointer"
-                          onClick={() => setModalImageUrl(item.imageUrl)}
+                          onClick={() => handleOpenHistoryItem(item)}
                         />
                         <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300 p-2 pointer-events-none">
                             <p className="text-xs text-center text-gray-300 mb-2">{item.date}</p>
                             <button
                                 onClick={(e) => {
                                   e.stopPropagation();
-                                  handleDownload(item.imageUrl, item.fileName)
+                                  handleDownloadHistoryItem(item)
                                 }}
                                 className="pointer-events-auto flex items-center justify-center gap-2 w-full px-3 py-2 bg-cyan-600 text-white text-sm font-semibold rounded-lg hover:bg-cyan-700 transition-colors"
                             >
                                 <DownloadIcon className="w-4 h-4"/> Download
                             </button>
+                            <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setSelectedEntryId(item.id);
+                                }}
+                                className="pointer-events-auto mt-2 w-full px-3 py-2 bg-gray-700 text-white text-sm font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+                            >
+                                Details
+                            </button>
+                            <div className="pointer-events-auto mt-2 flex w-full gap-2">
+                                <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      handleEditFromVersion(item);
+                                    }}
+                                    disabled={isLoading}
+                                    className="flex-grow px-3 py-2 bg-gray-700 text-white text-sm font-semibold rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+                                >
+                                    Use as input
+                                </button>
+                                <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      handleDeleteHistoryItems([item.id]);
+                                    }}
+                                    className="px-2 py-2 bg-red-600/20 text-red-400 rounded-lg hover:bg-red-600/40 transition-colors"
+                                    aria-label={`Delete ${item.fileName}`}
+                                >
+                                    <TrashIcon className="w-4 h-4"/>
+                                </button>
+                            </div>
+                        </div>
+                        <input
+                          type="checkbox"
+                          checked={checkedIds.has(item.id)}
+                          onChange={() => handleToggleChecked(item.id)}
+                          className={`absolute top-2 left-2 w-5 h-5 rounded bg-gray-900/80 border-gray-500 text-cyan-600 focus:ring-cyan-500 transition-opacity ${checkedIds.size > 0 ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+                          aria-label={`Select ${item.fileName}`}
+                        />
+                        <button
+                          onClick={() => handleUpdateHistoryItem(item.id, { favorite: !item.favorite })}
+                          aria-pressed={item.favorite}
+                          className={`absolute top-2 right-2 p-1 rounded-full bg-gray-900/80 transition-opacity ${item.favorite ? 'text-yellow-400 opacity-100' : 'text-gray-300 hover:text-yellow-300 opacity-0 group-hover:opacity-100'}`}
+                          aria-label={item.favorite ? `Remove ${item.fileName} from favorites` : `Add ${item.fileName} to favorites`}
+                        >
+                          <StarIcon className="w-4 h-4" filled={item.favorite} />
+                        </button>
+                        <div className="py-1.5 bg-gray-800">
+                          <StarRating size="sm" rating={item.rating} onRatingChange={(value) => handleRateHistoryItem(item.id, value)} />
+                          {item.tags.length > 0 && (
+                            <div className="flex flex-wrap justify-center gap-1 px-2 pt-1">
+                              {item.tags.slice(0, 3).map(tag => (
+                                <button
+                                  key={tag}
+                                  onClick={() => setHistoryFilter(prev => ({ ...prev, tag }))}
+                                  className="px-1.5 py-0.5 bg-gray-700 text-gray-300 text-[10px] rounded-full hover:bg-gray-600 transition-colors"
+                                >
+                                  {tag}
+                                </button>
+                              ))}
+                              {item.tags.length > 3 && <span className="text-[10px] text-gray-500">+{item.tags.length - 3}</span>}
+                            </div>
+                          )}
                         </div>
                     </div>
                 ))}
             </div>
-        </section>
+            <VersionTree
+              history={history}
+              currentId={generatedEntryId}
+              disabled={isLoading}
+              onJump={handleJumpToVersion}
+              onExtend={handleExtendFromVersion}
+              onEdit={handleEditFromVersion}
+            />
+          </div>
+        )}
+      </section>
+      {modalView && (
+        <ImageModal
+          image={modalView.image}
+          compare={modalView.compare}
+          onPrevious={modalIndex > 0 ? () => openHistoryInModal(visibleHistory[modalIndex - 1]) : undefined}
+          onNext={modalIndex !== -1 && modalIndex < visibleHistory.length - 1 ? () => openHistoryInModal(visibleHistory[modalIndex + 1]) : undefined}
+          onClose={() => setModalView(null)}
+        />
       )}
-      {modalImageUrl && <ImageModal imageUrl={modalImageUrl} onClose={() => setModalImageUrl(null)} />}
+      {exportTarget && <ExportDialog imageUrl={exportTarget.imageUrl} context={exportTarget.context} onClose={() => setExportTarget(null)} />}
     </div>
   );
 };
@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ImageFile } from '../types';
+import type { ChatSession } from '../utils/chatSession';
+import { CloseIcon, ResetIcon } from './IconComponents';
+
+interface ChatThreadProps {
+  session: ChatSession;
+  isSending: boolean;
+  error: string | null;
+  // Resolves to false when the turn failed, so the draft is kept for another try.
+  onSend: (prompt: string) => Promise<boolean>;
+  onCancel: () => void;
+  onRevert: (turnId: string | null) => void;
+  onOpenImage: (imageUrl: string) => void;
+  onClose: () => void;
+}
+
+const toDataUrl = (image: ImageFile) => `data:${image.mimeType};base64,${image.base64}`;
+
+export const ChatThread: React.FC<ChatThreadProps> = ({ session, isSending, error, onSend, onCancel, onRevert, onOpenImage, onClose }) => {
+  const [draft, setDraft] = useState<string>('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [session.turns.length, isSending]);
+
+  const handleSend = async () => {
+    if (!draft.trim() || isSending) return;
+    if (await onSend(draft.trim())) {
+      setDraft('');
+    }
+  };
+
+  const currentTurnId = [...session.turns].reverse().find(turn => turn.role === 'model' && turn.image)?.id ?? null;
+
+  const revertButton = (turnId: string | null, isCurrent: boolean) => isCurrent ? (
+    <span className="text-xs text-cyan-400">Current</span>
+  ) : (
+    <button
+      onClick={() => onRevert(turnId)}
+      disabled={isSending}
+      className="flex items-center gap-1 text-xs text-gray-400 hover:text-white disabled:opacity-50"
+      title="Continue from this image; later turns are removed from the conversation but stay in history"
+    >
+      <ResetIcon className="w-3 h-3" /> Revert to here
+    </button>
+  );
+
+  return (
+    <div className="mt-4 bg-gray-900/60 border border-gray-700 rounded-lg p-3 flex flex-col">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-semibold text-gray-300">Conversation</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="End conversation">
+          <CloseIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto space-y-3 pr-1">
+        <div className="flex items-center gap-2">
+          <button onClick={() => onOpenImage(toDataUrl(session.baseImage))} className="w-12 h-12 flex-shrink-0 rounded overflow-hidden border border-gray-700">
+            <img src={toDataUrl(session.baseImage)} alt="Starting image" className="w-full h-full object-cover" />
+          </button>
+          <div className="flex-grow min-w-0">
+            <p className="text-xs text-gray-400 truncate">Started from {session.baseImage.name}</p>
+            {revertButton(null, currentTurnId === null && !isSending)}
+          </div>
+        </div>
+
+        {session.turns.map(turn => turn.role === 'user' ? (
+          <div key={turn.id} className="flex justify-end">
+            <p className="max-w-[85%] bg-cyan-900/50 text-gray-100 text-sm rounded-lg px-3 py-2 whitespace-pre-wrap">{turn.text}</p>
+          </div>
+        ) : (
+          <div key={turn.id} className="flex gap-2 items-start">
+            {turn.image && (
+              <button onClick={() => onOpenImage(toDataUrl(turn.image!))} className="w-20 h-20 flex-shrink-0 rounded overflow-hidden border border-gray-700">
+                <img src={toDataUrl(turn.image)} alt="Model result" className="w-full h-full object-cover" />
+              </button>
+            )}
+            <div className="min-w-0 space-y-1">
+              {turn.text && <p className="bg-gray-800 text-gray-300 text-sm rounded-lg px-3 py-2 whitespace-pre-wrap">{turn.text}</p>}
+              {turn.image && revertButton(turn.id, turn.id === currentTurnId && !isSending)}
+            </div>
+          </div>
+        ))}
+
+        {isSending && (
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <div className="w-4 h-4 border-2 border-dashed border-cyan-400 rounded-full animate-spin"></div>
+            Thinking…
+            <button onClick={onCancel} className="ml-auto text-xs text-red-400 hover:text-red-300 font-semibold">Cancel</button>
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+      <div className="mt-3 flex gap-2">
+        <textarea
+          rows={2}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          disabled={isSending}
+          className="flex-grow bg-gray-900 border-gray-600 rounded-md text-sm focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50"
+          placeholder="e.g., Now make the sky darker"
+        />
+        <button
+          onClick={handleSend}
+          disabled={isSending || !draft.trim()}
+          className="px-4 bg-cyan-600 text-white text-sm font-semibold rounded-md hover:bg-cyan-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+        >
+          Send
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import {
+  EXPORT_FORMATS,
+  FILE_NAME_TOKENS,
+  exportImage,
+  formatExportFileName,
+  loadExportOptions,
+  saveExportOptions,
+  ExportContext,
+  ExportFormat,
+  ExportOptions,
+} from '../utils/imageExport';
+import { CloseIcon, DownloadIcon } from './IconComponents';
+
+interface ExportDialogProps {
+  imageUrl: string;
+  context: ExportContext;
+  onClose: () => void;
+}
+
+const SCALES = [1, 2, 4];
+
+const inputClass = 'mt-1 block w-full bg-gray-900 border-gray-600 rounded-md text-sm focus:ring-cyan-500 focus:border-cyan-500';
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ imageUrl, context, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>(loadExportOptions);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const update = (changes: Partial<ExportOptions>) => {
+    const next = { ...options, ...changes };
+    setOptions(next);
+    saveExportOptions(next);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      const source = await (await fetch(imageUrl)).blob();
+      const result = await exportImage(source, options, context);
+      const url = URL.createObjectURL(result.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = result.fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+      const notes = [
+        result.fallbackFormat && `This browser cannot write ${options.format.split('/')[1].toUpperCase()}, so the file was saved as ${result.fallbackFormat.split('/')[1].toUpperCase()}.`,
+        options.embedMetadata && !result.metadataEmbedded && 'The generation settings could not be embedded in this format.',
+      ].filter(Boolean);
+      if (notes.length > 0) {
+        setMessage(notes.join(' '));
+      } else {
+        onClose();
+      }
+    } catch (e: any) {
+      console.error("Failed to export image", e);
+      setMessage(`Export failed: ${e.message ?? 'unknown error'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const usesQuality = options.format !== 'image/png';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Export image"
+    >
+      <div className="bg-gray-800 border border-gray-700 rounded-xl p-5 w-full max-w-md space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-cyan-300">Export Image</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close export dialog">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <img
+          src={imageUrl}
+          alt="Image to export"
+          className="w-full max-h-48 object-contain rounded bg-gray-900"
+          onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        />
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block text-sm text-gray-300">
+            Format
+            <select value={options.format} onChange={(e) => update({ format: e.target.value as ExportFormat })} className={inputClass}>
+              {EXPORT_FORMATS.map(item => <option key={item.format} value={item.format}>{item.label}</option>)}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-300">
+            Size
+            <select value={options.scale} onChange={(e) => update({ scale: Number(e.target.value) })} className={inputClass}>
+              {SCALES.map(scale => (
+                <option key={scale} value={scale}>
+                  {scale === 1 ? 'Original' : `${scale}× upscale`}{size ? ` (${size.width * scale}×${size.height * scale})` : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {usesQuality && (
+          <label className="block text-sm text-gray-300">
+            <span className="flex justify-between">Quality<span className="text-gray-400">{Math.round(options.quality * 100)}</span></span>
+            <input
+              type="range"
+              min={30}
+              max={100}
+              value={Math.round(options.quality * 100)}
+              onChange={(e) => update({ quality: Number(e.target.value) / 100 })}
+              className="w-full accent-cyan-500"
+            />
+          </label>
+        )}
+
+        <label className="block text-sm text-gray-300">
+          File name
+          <input value={options.fileNameTemplate} onChange={(e) => update({ fileNameTemplate: e.target.value })} className={inputClass} />
+          <span className="block text-xs text-gray-500 mt-1">
+            Tokens: {FILE_NAME_TOKENS.join(' ')} → {formatExportFileName(options.fileNameTemplate, context, options.format)}
+          </span>
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={options.embedMetadata}
+            onChange={(e) => update({ embedMetadata: e.target.checked })}
+            className="rounded bg-gray-900 border-gray-600 text-cyan-600 focus:ring-cyan-500"
+          />
+          Embed prompt and settings in the file
+          {options.format === 'image/avif' && <span className="text-xs text-gray-500">(not supported for AVIF)</span>}
+        </label>
+
+        {message && <p className="text-sm text-yellow-300">{message}</p>}
+
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-cyan-600 text-white font-semibold rounded-lg hover:bg-cyan-700 transition-colors disabled:opacity-50"
+        >
+          <DownloadIcon className="w-5 h-5" /> {isExporting ? 'Exporting…' : 'Export'}
+        </button>
+      </div>
+    </div>
+  );
+};
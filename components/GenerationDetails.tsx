@@ -0,0 +1,142 @@
+import React from 'react';
+import type { HistoryEntry } from '../types';
+import type { HistoryEntryUpdate } from '../services/historyStore';
+import { CloseIcon, StarIcon, TrashIcon } from './IconComponents';
+import { LabelEditor } from './LabelEditor';
+import { imageRoleLabels } from './ReferenceImageList';
+
+interface GenerationDetailsProps {
+  entry: HistoryEntry;
+  parentEntry?: HistoryEntry | null;
+  onLoadSettings: (entry: HistoryEntry) => void;
+  onSelectEntry: (entry: HistoryEntry) => void;
+  tagSuggestions: string[];
+  collectionSuggestions: string[];
+  onUpdate: (update: HistoryEntryUpdate) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const modeLabels = {
+  create: 'Create from text',
+  edit: 'Edit image',
+  extend: 'Extend scene',
+  outpaint: 'Outpaint to new ratio',
+  adjust: 'Local adjustments',
+};
+
+const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <dt className="text-xs uppercase tracking-wide text-gray-500">{label}</dt>
+    <dd className="text-sm text-gray-200 break-words">{children}</dd>
+  </div>
+);
+
+export const GenerationDetails: React.FC<GenerationDetailsProps> = ({
+  entry,
+  parentEntry,
+  onLoadSettings,
+  onSelectEntry,
+  tagSuggestions,
+  collectionSuggestions,
+  onUpdate,
+  onDelete,
+  onClose,
+}) => {
+  const { request } = entry;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-xl p-4 flex flex-col sm:flex-row gap-4">
+      <img src={entry.thumbnailUrl} alt="Selected generation" className="w-32 h-32 object-cover rounded-lg flex-shrink-0" />
+      <div className="flex-grow">
+        <div className="flex justify-between items-start mb-3">
+          <h3 className="text-lg font-semibold text-cyan-300">Generation Details</h3>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => onUpdate({ favorite: !entry.favorite })}
+              aria-pressed={entry.favorite}
+              className={`flex items-center gap-1 text-sm transition-colors ${entry.favorite ? 'text-yellow-400 hover:text-yellow-300' : 'text-gray-400 hover:text-white'}`}
+            >
+              <StarIcon className="w-5 h-5" filled={entry.favorite} />
+              {entry.favorite ? 'Favorite' : 'Add to favorites'}
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close details">
+              <CloseIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+          <DetailRow label="Tags">
+            <LabelEditor labels={entry.tags} suggestions={tagSuggestions} placeholder="Add tag" onChange={(tags) => onUpdate({ tags })} />
+          </DetailRow>
+          <DetailRow label="Collections">
+            <LabelEditor
+              labels={entry.collections}
+              suggestions={collectionSuggestions}
+              placeholder="Add to collection"
+              onChange={(collections) => onUpdate({ collections })}
+            />
+          </DetailRow>
+        </dl>
+        {!request ? (
+          <p className="text-sm text-gray-400">No generation settings were recorded for this image.</p>
+        ) : (
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <DetailRow label="Prompt">{request.prompt}</DetailRow>
+            <DetailRow label="Negative Prompt">{request.negativePrompt || <span className="text-gray-500">None</span>}</DetailRow>
+            <DetailRow label="Mode">{modeLabels[request.mode]}{request.masked ? ' (masked region)' : ''}</DetailRow>
+            <DetailRow label="Aspect Ratio">{request.aspectRatio}</DetailRow>
+            {request.template && <DetailRow label="Template">{request.template.name}</DetailRow>}
+            <DetailRow label="Source Image">
+              {parentEntry ? (
+                <button onClick={() => onSelectEntry(parentEntry)} className="text-cyan-400 hover:text-cyan-300 underline">
+                  {parentEntry.fileName}
+                </button>
+              ) : (
+                request.sourceImageName ?? <span className="text-gray-500">None</span>
+              )}
+            </DetailRow>
+            {request.referenceImages && request.referenceImages.length > 0 && (
+              <DetailRow label="Additional Images">
+                {request.referenceImages.map((image, index) => (
+                  <span key={index} className="block">{image.name} <span className="text-gray-500">({imageRoleLabels[image.role]})</span></span>
+                ))}
+              </DetailRow>
+            )}
+            <DetailRow label="Model">{request.model}</DetailRow>
+            <DetailRow label="Started">{new Date(request.startedAt).toLocaleString()}</DetailRow>
+            <DetailRow label="Duration">{(request.durationMs / 1000).toFixed(1)}s</DetailRow>
+            <DetailRow label="Rating">
+              {entry.rating > 0 ? (
+                <span className="flex items-center gap-0.5 text-yellow-400">
+                  {[1, 2, 3, 4, 5].map((star) => (
+                    <StarIcon key={star} className="w-4 h-4" filled={entry.rating >= star} />
+                  ))}
+                </span>
+              ) : (
+                <span className="text-gray-500">Not rated</span>
+              )}
+            </DetailRow>
+          </dl>
+        )}
+        <div className="mt-4 flex flex-wrap gap-2">
+          {request && request.mode !== 'adjust' && (
+            <button
+              onClick={() => onLoadSettings(entry)}
+              className="px-4 py-2 bg-cyan-600 text-white text-sm font-semibold rounded-lg hover:bg-cyan-700 transition-colors"
+            >
+              Load these settings
+            </button>
+          )}
+          <button
+            onClick={onDelete}
+            className="flex items-center gap-2 px-4 py-2 bg-red-600/20 text-red-400 text-sm font-semibold rounded-lg hover:bg-red-600/40 transition-colors"
+          >
+            <TrashIcon className="w-4 h-4" />
+            Delete
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { GENERATION_ERROR_HELP, GenerationError, RecoveryAction } from '../utils/generationErrors';
+import { CloseIcon } from './IconComponents';
+
+interface GenerationErrorNoticeProps {
+  error: GenerationError;
+  // Actions the current screen can perform; others are left out even if they would help.
+  onAction: Partial<Record<RecoveryAction, () => void>>;
+  // Shown for quota errors, when the quota resets.
+  resetAt?: number;
+  onDismiss: () => void;
+}
+
+const actionLabels: Record<RecoveryAction, string> = {
+  retry: 'Try again',
+  'edit-prompt': 'Edit prompt',
+  'replace-image': 'Use a different image',
+  'switch-provider': 'Switch to offline mock',
+  wait: 'Refresh quota',
+};
+
+export const GenerationErrorNotice: React.FC<GenerationErrorNoticeProps> = ({ error, onAction, resetAt, onDismiss }) => {
+  const help = GENERATION_ERROR_HELP[error.code];
+  const actions = help.actions.filter(action => onAction[action]);
+
+  return (
+    <div className="mt-3 bg-red-900/20 border border-red-800/60 rounded-lg p-3 text-sm space-y-2" role="alert">
+      <div className="flex justify-between items-start gap-2">
+        <div>
+          <p className="font-semibold text-red-300">{help.title}</p>
+          <p className="text-gray-300 mt-1">{help.hint}</p>
+          {error.code === 'quota-exhausted' && resetAt && (
+            <p className="text-gray-400 mt-1">Resets at {new Date(resetAt).toLocaleString()}.</p>
+          )}
+        </div>
+        <button onClick={onDismiss} className="text-gray-400 hover:text-white transition-colors" aria-label="Dismiss error">
+          <CloseIcon className="w-4 h-4" />
+        </button>
+      </div>
+      {error.finishReason && <p className="text-xs text-gray-400">Reason reported by the model: <code>{error.finishReason}</code></p>}
+      {error.modelText && (
+        <blockquote className="text-xs text-gray-300 border-l-2 border-gray-600 pl-2 italic whitespace-pre-wrap">{error.modelText}</blockquote>
+      )}
+      {actions.length > 0 && (
+        <div className="flex flex-wrap gap-2 pt-1">
+          {actions.map(action => (
+            <button
+              key={action}
+              onClick={onAction[action]}
+              className="px-3 py-1 bg-gray-700 text-gray-100 text-xs font-semibold rounded-md hover:bg-gray-600 transition-colors"
+            >
+              {actionLabels[action]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
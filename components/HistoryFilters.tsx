@@ -0,0 +1,97 @@
+import React, { useMemo } from 'react';
+import type { HistoryEntry } from '../types';
+import { collectAspectRatios, collectLabels, DEFAULT_HISTORY_FILTER, HistoryFilter, HistorySort, isDefaultHistoryFilter } from '../utils/historySearch';
+import { StarIcon } from './IconComponents';
+
+interface HistoryFiltersProps {
+  history: HistoryEntry[];
+  filter: HistoryFilter;
+  onChange: (filter: HistoryFilter) => void;
+}
+
+const selectClassName = 'bg-gray-900 border-gray-600 rounded-md text-sm text-gray-200 focus:ring-cyan-500 focus:border-cyan-500';
+
+export const HistoryFilters: React.FC<HistoryFiltersProps> = ({ history, filter, onChange }) => {
+  const tags = useMemo(() => collectLabels(history, 'tags'), [history]);
+  const collections = useMemo(() => collectLabels(history, 'collections'), [history]);
+  const aspectRatios = useMemo(() => collectAspectRatios(history), [history]);
+
+  const update = (changes: Partial<HistoryFilter>) => onChange({ ...filter, ...changes });
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <input
+        type="search"
+        value={filter.query}
+        onChange={(e) => update({ query: e.target.value })}
+        placeholder="Search prompts, tags, collections…"
+        className="w-full sm:w-64 bg-gray-900 border-gray-600 rounded-md text-sm text-gray-200 focus:ring-cyan-500 focus:border-cyan-500"
+        aria-label="Search history"
+      />
+      <button
+        onClick={() => update({ favoritesOnly: !filter.favoritesOnly })}
+        aria-pressed={filter.favoritesOnly}
+        className={`flex items-center gap-1 px-3 py-1 font-semibold rounded-lg transition-colors ${filter.favoritesOnly ? 'bg-yellow-500/20 text-yellow-300 hover:bg-yellow-500/30' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+      >
+        <StarIcon className="w-4 h-4" filled={filter.favoritesOnly} /> Favorites
+      </button>
+      {collections.length > 0 && (
+        <label className="flex items-center gap-2 text-gray-400">
+          Collection
+          <select value={filter.collection ?? ''} onChange={(e) => update({ collection: e.target.value || null })} className={selectClassName}>
+            <option value="">All</option>
+            {collections.map(collection => <option key={collection} value={collection}>{collection}</option>)}
+          </select>
+        </label>
+      )}
+      {tags.length > 0 && (
+        <label className="flex items-center gap-2 text-gray-400">
+          Tag
+          <select value={filter.tag ?? ''} onChange={(e) => update({ tag: e.target.value || null })} className={selectClassName}>
+            <option value="">All</option>
+            {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+          </select>
+        </label>
+      )}
+      {aspectRatios.length > 1 && (
+        <label className="flex items-center gap-2 text-gray-400">
+          Aspect
+          <select value={filter.aspectRatio ?? ''} onChange={(e) => update({ aspectRatio: e.target.value || null })} className={selectClassName}>
+            <option value="">All</option>
+            {aspectRatios.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+          </select>
+        </label>
+      )}
+      <label className="flex items-center gap-2 text-gray-400">
+        From
+        <input type="date" value={filter.from} max={filter.to || undefined} onChange={(e) => update({ from: e.target.value })} className={selectClassName} />
+      </label>
+      <label className="flex items-center gap-2 text-gray-400">
+        To
+        <input type="date" value={filter.to} min={filter.from || undefined} onChange={(e) => update({ to: e.target.value })} className={selectClassName} />
+      </label>
+      <label className="flex items-center gap-2 text-gray-400">
+        Rating
+        <select value={filter.minRating} onChange={(e) => update({ minRating: Number(e.target.value) })} className={selectClassName}>
+          <option value={0}>All</option>
+          <option value={-1}>Unrated</option>
+          {[5, 4, 3, 2, 1].map(stars => <option key={stars} value={stars}>{stars === 5 ? '5 stars' : `${stars}+ stars`}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-2 text-gray-400">
+        Sort
+        <select value={filter.sort} onChange={(e) => update({ sort: e.target.value as HistorySort })} className={selectClassName}>
+          <option value="newest">Newest first</option>
+          <option value="oldest">Oldest first</option>
+          <option value="rating-desc">Highest rated</option>
+          <option value="rating-asc">Lowest rated</option>
+        </select>
+      </label>
+      {!isDefaultHistoryFilter(filter) && (
+        <button onClick={() => onChange({ ...DEFAULT_HISTORY_FILTER, sort: filter.sort })} className="text-cyan-400 hover:text-cyan-300 underline">
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import type { ImageFile } from '../types';
+import {
+  DEFAULT_ADJUSTMENTS,
+  describeAdjustments,
+  hasAdjustments,
+  renderAdjustedImage,
+  ImageAdjustments,
+  OverlayPosition,
+  Rotation,
+} from '../utils/imageAdjustments';
+
+export interface AdjustedImage extends ImageFile {
+  width: number;
+  height: number;
+  description: string;
+}
+
+interface ImageAdjusterProps {
+  imageUrl: string;
+  disabled?: boolean;
+  onUseAsInput: (image: AdjustedImage) => void;
+  onSaveToHistory: (image: AdjustedImage) => void;
+  onClose: () => void;
+}
+
+// The live preview renders from a downscaled copy; full resolution is only rendered on export.
+const PREVIEW_EDGE = 800;
+
+const overlayPositions: { id: OverlayPosition; label: string }[] = [
+  { id: 'top-left', label: 'Top left' },
+  { id: 'top-right', label: 'Top right' },
+  { id: 'center', label: 'Center' },
+  { id: 'bottom-left', label: 'Bottom left' },
+  { id: 'bottom-right', label: 'Bottom right' },
+];
+
+const smallButtonClass = 'px-2 py-1 rounded-md text-xs font-semibold bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors disabled:opacity-50';
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; disabled?: boolean; onChange: (value: number) => void }> = ({ label, value, min, max, disabled, onChange }) => (
+  <label className="block text-xs text-gray-400">
+    <span className="flex justify-between">{label}<span>{value}</span></span>
+    <input type="range" min={min} max={max} value={value} disabled={disabled} onChange={(e) => onChange(Number(e.target.value))} className="w-full accent-cyan-500" />
+  </label>
+);
+
+export const ImageAdjuster: React.FC<ImageAdjusterProps> = ({ imageUrl, disabled = false, onUseAsInput, onSaveToHistory, onClose }) => {
+  const [adjustments, setAdjustments] = useState<ImageAdjustments>(DEFAULT_ADJUSTMENTS);
+  const [source, setSource] = useState<{ full: ImageBitmap; preview: ImageBitmap } | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [split, setSplit] = useState<number>(50);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: { full: ImageBitmap; preview: ImageBitmap } | null = null;
+    (async () => {
+      try {
+        const blob = await (await fetch(imageUrl)).blob();
+        const full = await createImageBitmap(blob);
+        const scale = Math.min(1, PREVIEW_EDGE / Math.max(full.width, full.height));
+        const preview = await createImageBitmap(full, {
+          resizeWidth: Math.max(1, Math.round(full.width * scale)),
+          resizeHeight: Math.max(1, Math.round(full.height * scale)),
+        });
+        loaded = { full, preview };
+        if (cancelled) {
+          full.close();
+          preview.close();
+        } else {
+          setSource(loaded);
+        }
+      } catch (e) {
+        console.error("Failed to load image for adjustments", e);
+        if (!cancelled) setError('Failed to load the image for editing.');
+      }
+    })();
+    return () => {
+      cancelled = true;
+      loaded?.full.close();
+      loaded?.preview.close();
+    };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    if (!source) return;
+    // Debounced so dragging a slider does not re-render (and re-sharpen) on every tick.
+    const timeout = setTimeout(() => {
+      setPreviewUrl(renderAdjustedImage(source.preview, adjustments).toDataURL('image/jpeg', 0.85));
+    }, 60);
+    return () => clearTimeout(timeout);
+  }, [source, adjustments]);
+
+  const update = (changes: Partial<ImageAdjustments>) => setAdjustments(prev => ({ ...prev, ...changes }));
+  const updateCrop = (side: keyof ImageAdjustments['crop'], percent: number) =>
+    setAdjustments(prev => ({ ...prev, crop: { ...prev.crop, [side]: percent / 100 } }));
+
+  const exportImage = (): AdjustedImage | null => {
+    if (!source) return null;
+    const canvas = renderAdjustedImage(source.full, adjustments);
+    return {
+      base64: canvas.toDataURL('image/png').split(',')[1],
+      mimeType: 'image/png',
+      width: canvas.width,
+      height: canvas.height,
+      description: describeAdjustments(adjustments),
+    };
+  };
+
+  const handleExport = (action: (image: AdjustedImage) => void) => {
+    try {
+      const image = exportImage();
+      if (image) action(image);
+    } catch (e) {
+      console.error("Failed to render adjusted image", e);
+      setError('Failed to render the adjusted image.');
+    }
+  };
+
+  const isChanged = hasAdjustments(adjustments);
+  const overlay = adjustments.overlay;
+
+  return (
+    <div className="bg-gray-900/60 border border-gray-700 rounded-lg p-3 space-y-3">
+      <div className="relative w-full aspect-square bg-gray-800 rounded overflow-hidden select-none">
+        {previewUrl && <img src={previewUrl} alt="Adjusted" className="absolute inset-0 w-full h-full object-contain" />}
+        <img
+          src={imageUrl}
+          alt="Before"
+          className="absolute inset-0 w-full h-full object-contain"
+          style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+        />
+        <div className="absolute inset-y-0 w-0.5 bg-cyan-400 pointer-events-none" style={{ left: `${split}%` }} />
+        <span className="absolute top-2 left-2 text-xs bg-black/60 text-gray-200 px-1 rounded">Before</span>
+        <span className="absolute top-2 right-2 text-xs bg-black/60 text-gray-200 px-1 rounded">After</span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={split}
+        onChange={(e) => setSplit(Number(e.target.value))}
+        className="w-full accent-cyan-500"
+        aria-label="Before/after split"
+      />
+
+      <div className="flex flex-wrap gap-2">
+        <button className={smallButtonClass} disabled={disabled} onClick={() => update({ rotation: ((adjustments.rotation + 270) % 360) as Rotation })}>Rotate left</button>
+        <button className={smallButtonClass} disabled={disabled} onClick={() => update({ rotation: ((adjustments.rotation + 90) % 360) as Rotation })}>Rotate right</button>
+        <button className={smallButtonClass} disabled={disabled} onClick={() => update({ flipHorizontal: !adjustments.flipHorizontal })}>Flip horizontal</button>
+        <button className={smallButtonClass} disabled={disabled} onClick={() => update({ flipVertical: !adjustments.flipVertical })}>Flip vertical</button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+        <Slider label="Crop left %" value={Math.round(adjustments.crop.left * 100)} min={0} max={45} disabled={disabled} onChange={(v) => updateCrop('left', v)} />
+        <Slider label="Crop right %" value={Math.round(adjustments.crop.right * 100)} min={0} max={45} disabled={disabled} onChange={(v) => updateCrop('right', v)} />
+        <Slider label="Crop top %" value={Math.round(adjustments.crop.top * 100)} min={0} max={45} disabled={disabled} onChange={(v) => updateCrop('top', v)} />
+        <Slider label="Crop bottom %" value={Math.round(adjustments.crop.bottom * 100)} min={0} max={45} disabled={disabled} onChange={(v) => updateCrop('bottom', v)} />
+        <Slider label="Brightness %" value={adjustments.brightness} min={0} max={200} disabled={disabled} onChange={(v) => update({ brightness: v })} />
+        <Slider label="Contrast %" value={adjustments.contrast} min={0} max={200} disabled={disabled} onChange={(v) => update({ contrast: v })} />
+        <Slider label="Saturation %" value={adjustments.saturation} min={0} max={200} disabled={disabled} onChange={(v) => update({ saturation: v })} />
+        <Slider label="Sharpen" value={adjustments.sharpen} min={0} max={100} disabled={disabled} onChange={(v) => update({ sharpen: v })} />
+      </div>
+
+      <div className="space-y-2">
+        <input
+          className="block w-full bg-gray-900 border-gray-600 rounded-md text-sm focus:ring-cyan-500 focus:border-cyan-500 placeholder-gray-500"
+          placeholder="Text or watermark (optional)"
+          value={overlay?.text ?? ''}
+          disabled={disabled}
+          onChange={(e) => update({
+            overlay: e.target.value
+              ? { position: 'bottom-right', size: 0.06, color: '#ffffff', opacity: 0.8, ...overlay, text: e.target.value }
+              : null,
+          })}
+        />
+        {overlay && (
+          <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+            <select
+              value={overlay.position}
+              onChange={(e) => update({ overlay: { ...overlay, position: e.target.value as OverlayPosition } })}
+              className="bg-gray-900 border-gray-600 rounded-md text-xs py-0.5"
+              aria-label="Text position"
+            >
+              {overlayPositions.map(position => <option key={position.id} value={position.id}>{position.label}</option>)}
+            </select>
+            <input type="color" value={overlay.color} onChange={(e) => update({ overlay: { ...overlay, color: e.target.value } })} aria-label="Text color" />
+            <label className="flex items-center gap-1">
+              Size
+              <input type="range" min={2} max={20} value={Math.round(overlay.size * 100)} onChange={(e) => update({ overlay: { ...overlay, size: Number(e.target.value) / 100 } })} className="accent-cyan-500" />
+            </label>
+            <label className="flex items-center gap-1">
+              Opacity
+              <input type="range" min={10} max={100} value={Math.round(overlay.opacity * 100)} onChange={(e) => update({ overlay: { ...overlay, opacity: Number(e.target.value) / 100 } })} className="accent-cyan-500" />
+            </label>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+
+      <div className="flex flex-wrap gap-2 pt-1 border-t border-gray-700">
+        <button className={smallButtonClass} disabled={disabled || !isChanged} onClick={() => setAdjustments(DEFAULT_ADJUSTMENTS)}>Reset</button>
+        <span className="flex-grow" />
+        <button className={smallButtonClass} onClick={onClose}>Close</button>
+        <button className={smallButtonClass} disabled={disabled || !source || !isChanged} onClick={() => handleExport(onSaveToHistory)}>Save as new version</button>
+        <button
+          className="px-2 py-1 rounded-md text-xs font-semibold bg-cyan-600 text-white hover:bg-cyan-700 transition-colors disabled:opacity-50"
+          disabled={disabled || !source}
+          onClick={() => handleExport(onUseAsInput)}
+        >
+          Use as next input
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,35 +1,251 @@
-import React from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { CloseIcon } from './IconComponents';
+import { actualSizeScale, FIT_VIEW, ViewTransform, zoomAt } from '../utils/viewTransform';
+
+export interface ModalImage {
+  url: string;
+  label: string;
+}
+
+export type CompareMode = 'swipe' | 'onion' | 'side-by-side';
 
 interface ImageModalProps {
-  imageUrl: string;
+  image: ModalImage;
+  // Shown against `image` in the compare modes, e.g. the source of an edit.
+  compare?: ModalImage | null;
+  // Set when the image belongs to a list (the history grid) that the arrow keys page through.
+  onPrevious?: () => void;
+  onNext?: () => void;
   onClose: () => void;
 }
 
-export const ImageModal: React.FC<ImageModalProps> = ({ imageUrl, onClose }) => {
+type ViewMode = 'single' | CompareMode;
+
+const modeLabels: Record<ViewMode, string> = {
+  single: 'Single',
+  swipe: 'Swipe',
+  onion: 'Onion skin',
+  'side-by-side': 'Side by side',
+};
+
+const COMPARE_VIEW_MODES: ViewMode[] = ['single', 'swipe', 'onion', 'side-by-side'];
+const SINGLE_VIEW_MODES: ViewMode[] = ['single'];
+
+const WHEEL_ZOOM_STEP = 1.0015;
+const BUTTON_ZOOM_STEP = 1.5;
+
+const toolButtonClass = 'px-2 py-1 rounded-md text-xs font-semibold transition-colors';
+
+export const ImageModal: React.FC<ImageModalProps> = ({ image, compare, onPrevious, onNext, onClose }) => {
+  const [view, setView] = useState<ViewTransform>(FIT_VIEW);
+  const [mode, setMode] = useState<ViewMode>(compare ? 'swipe' : 'single');
+  const [swipe, setSwipe] = useState<number>(0.5);
+  const [opacity, setOpacity] = useState<number>(0.5);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [paneSize, setPaneSize] = useState<{ width: number; height: number }>({ width: 0, height: 0 });
+  const paneRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; view: ViewTransform } | null>(null);
+
+  const modes = compare ? COMPARE_VIEW_MODES : SINGLE_VIEW_MODES;
+  const activeMode = compare ? mode : 'single';
+
+  // A new image (e.g. paging through history) starts fitted again.
+  useEffect(() => {
+    setView(FIT_VIEW);
+    setNaturalSize(null);
+  }, [image.url]);
+
+  useEffect(() => {
+    if (!compare) setMode('single');
+  }, [compare]);
+
+  // All panes are the same size, so the first one stands for them when converting to image pixels.
+  useEffect(() => {
+    const pane = paneRef.current;
+    if (!pane) return;
+    const observer = new ResizeObserver(([entry]) => setPaneSize({ width: entry.contentRect.width, height: entry.contentRect.height }));
+    observer.observe(pane);
+    return () => observer.disconnect();
+  }, [activeMode]);
+
+  const fitRatio = naturalSize && paneSize.width > 0
+    ? Math.min(paneSize.width / naturalSize.width, paneSize.height / naturalSize.height)
+    : null;
+  const showActualSize = useCallback(() => {
+    if (!naturalSize || !fitRatio) return;
+    setView({ scale: actualSizeScale(naturalSize.width, naturalSize.width * fitRatio), x: 0, y: 0 });
+  }, [naturalSize, fitRatio]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft' && onPrevious) onPrevious();
+      else if (e.key === 'ArrowRight' && onNext) onNext();
+      else if (e.key === '+' || e.key === '=') setView(prev => zoomAt(prev, BUTTON_ZOOM_STEP));
+      else if (e.key === '-') setView(prev => zoomAt(prev, 1 / BUTTON_ZOOM_STEP));
+      else if (e.key === '0') setView(FIT_VIEW);
+      else if (e.key === '1') showActualSize();
+      else if (e.key.toLowerCase() === 'c' && compare) setMode(prev => modes[(modes.indexOf(prev) + 1) % modes.length]);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, onPrevious, onNext, showActualSize, compare, modes]);
+
+  // Wheel zoom follows the cursor; React's wheel listener is passive, so it is attached by hand.
+  const stageRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const pane = (e.target as HTMLElement).closest('[data-pane]') ?? stage;
+      const rect = pane.getBoundingClientRect();
+      const anchor = { x: e.clientX - rect.left - rect.width / 2, y: e.clientY - rect.top - rect.height / 2 };
+      setView(prev => zoomAt(prev, WHEEL_ZOOM_STEP ** -e.deltaY, anchor));
+    };
+    stage.addEventListener('wheel', handleWheel, { passive: false });
+    return () => stage.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, view };
+  };
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setView({ ...drag.view, x: drag.view.x + e.clientX - drag.pointerX, y: drag.view.y + e.clientY - drag.pointerY });
+  };
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleSwipePointer = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    if (e.type === 'pointerdown') {
+      e.currentTarget.setPointerCapture(e.pointerId);
+    } else if (!e.currentTarget.hasPointerCapture(e.pointerId)) {
+      return;
+    }
+    const rect = stageRef.current!.getBoundingClientRect();
+    setSwipe(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+  };
+
+  // Screen pixels per image pixel; past 2 the pixels are drawn as crisp squares.
+  const pixelScale = fitRatio ? view.scale * fitRatio : null;
+  const imageStyle: React.CSSProperties = {
+    transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+    imageRendering: pixelScale && pixelScale >= 2 ? 'pixelated' : 'auto',
+  };
+
+  const renderLayer = (layer: ModalImage, style?: React.CSSProperties, onLoad?: (img: HTMLImageElement) => void) => (
+    <div className="absolute inset-0 overflow-hidden" style={style}>
+      <img
+        src={layer.url}
+        alt={layer.label}
+        draggable={false}
+        onLoad={onLoad && ((e) => onLoad(e.currentTarget))}
+        className="w-full h-full object-contain select-none origin-center"
+        style={imageStyle}
+      />
+    </div>
+  );
+  const trackNaturalSize = (img: HTMLImageElement) => setNaturalSize({ width: img.naturalWidth, height: img.naturalHeight });
+
+  const label = (text: string, side: 'left' | 'right') => (
+    <span className={`absolute top-2 ${side === 'left' ? 'left-2' : 'right-2'} max-w-[45%] truncate px-2 py-0.5 rounded bg-black/60 text-xs text-gray-200 pointer-events-none`}>
+      {text}
+    </span>
+  );
+
   return (
-    <div 
-      className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm"
-      onClick={onClose}
-      role="dialog"
-      aria-modal="true"
-      aria-label="Image Preview"
-    >
-      <button
-        onClick={onClose}
-        className="absolute top-4 right-4 text-white hover:text-cyan-300 transition-colors z-50"
-        aria-label="Close image preview"
+    <div className="fixed inset-0 bg-black/90 flex flex-col z-50 backdrop-blur-sm" role="dialog" aria-modal="true" aria-label="Image Preview">
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2 bg-gray-900/80 border-b border-gray-700 text-gray-200">
+        {modes.length > 1 && modes.map(item => (
+          <button
+            key={item}
+            onClick={() => setMode(item)}
+            className={`${toolButtonClass} ${activeMode === item ? 'bg-cyan-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            {modeLabels[item]}
+          </button>
+        ))}
+        {activeMode === 'onion' && (
+          <label className="flex items-center gap-2 text-xs">
+            Mix
+            <input type="range" min={0} max={1} step={0.01} value={opacity} onChange={(e) => setOpacity(Number(e.target.value))} />
+          </label>
+        )}
+        <span className="flex-grow" />
+        <button onClick={() => setView(prev => zoomAt(prev, 1 / BUTTON_ZOOM_STEP))} className={`${toolButtonClass} bg-gray-700 hover:bg-gray-600`} aria-label="Zoom out">−</button>
+        <span className="text-xs w-14 text-center tabular-nums">{pixelScale ? `${Math.round(pixelScale * 100)}%` : '–'}</span>
+        <button onClick={() => setView(prev => zoomAt(prev, BUTTON_ZOOM_STEP))} className={`${toolButtonClass} bg-gray-700 hover:bg-gray-600`} aria-label="Zoom in">+</button>
+        <button onClick={() => setView(FIT_VIEW)} className={`${toolButtonClass} bg-gray-700 hover:bg-gray-600`}>Fit</button>
+        <button onClick={showActualSize} className={`${toolButtonClass} bg-gray-700 hover:bg-gray-600`}>1:1</button>
+        {(onPrevious || onNext) && (
+          <>
+            <button onClick={onPrevious} disabled={!onPrevious} className={`${toolButtonClass} bg-gray-700 hover:bg-gray-600 disabled:opacity-40`} aria-label="Previous image">←</button>
+            <button onClick={onNext} disabled={!onNext} className={`${toolButtonClass} bg-gray-700 hover:bg-gray-600 disabled:opacity-40`} aria-label="Next image">→</button>
+          </>
+        )}
+        <button onClick={onClose} className="text-white hover:text-cyan-300 transition-colors" aria-label="Close image preview">
+          <CloseIcon className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div
+        ref={stageRef}
+        className={`relative flex-grow grid ${activeMode === 'side-by-side' ? 'grid-cols-2 gap-1' : 'grid-cols-1'} cursor-grab active:cursor-grabbing touch-none`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={() => view.scale === 1 && view.x === 0 && view.y === 0 ? showActualSize() : setView(FIT_VIEW)}
       >
-        <CloseIcon className="w-8 h-8" />
-      </button>
-      <div className="relative max-w-[90vw] max-h-[90vh]">
-        <img 
-          src={imageUrl} 
-          alt="Enlarged preview" 
-          className="max-w-full max-h-full object-contain rounded-lg"
-          onClick={(e) => e.stopPropagation()} // Prevents closing modal when clicking the image
-        />
+        {activeMode === 'side-by-side' && compare ? (
+          <>
+            <div ref={paneRef} data-pane className="relative overflow-hidden">
+              {renderLayer(compare)}
+              {label(compare.label, 'left')}
+            </div>
+            <div data-pane className="relative overflow-hidden">
+              {renderLayer(image, undefined, trackNaturalSize)}
+              {label(image.label, 'left')}
+            </div>
+          </>
+        ) : (
+          <div ref={paneRef} data-pane className="relative overflow-hidden">
+            {renderLayer(image, undefined, trackNaturalSize)}
+            {activeMode === 'swipe' && compare && renderLayer(compare, { clipPath: `inset(0 ${(1 - swipe) * 100}% 0 0)` })}
+            {activeMode === 'onion' && compare && renderLayer(compare, { opacity: 1 - opacity })}
+            {activeMode === 'swipe' && compare && (
+              <div
+                className="absolute top-0 bottom-0 w-6 -ml-3 cursor-ew-resize flex justify-center"
+                style={{ left: `${swipe * 100}%` }}
+                onPointerDown={handleSwipePointer}
+                onPointerMove={handleSwipePointer}
+                role="slider"
+                aria-label="Compare position"
+                aria-valuenow={Math.round(swipe * 100)}
+                aria-valuemin={0}
+                aria-valuemax={100}
+              >
+                <div className="w-0.5 h-full bg-cyan-400 shadow" />
+              </div>
+            )}
+            {compare && activeMode !== 'single' && label(compare.label, 'left')}
+            {label(image.label, compare && activeMode !== 'single' ? 'right' : 'left')}
+          </div>
+        )}
       </div>
+      <p className="px-4 py-1 text-center text-xs text-gray-500">
+        Scroll to zoom, drag to pan, double-click to toggle fit and actual size
+        {compare && ', C to switch compare mode'}{(onPrevious || onNext) && ', ← → for the previous or next image'}, Esc to close.
+      </p>
     </div>
   );
-};
\ No newline at end of file
+};
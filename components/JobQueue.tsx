@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import type { GenerationJob } from '../types';
+import { isJobFinished, QUEUE_CONCURRENCY_OPTIONS } from '../utils/jobQueue';
+import { describeRequestPhase } from './RequestStatus';
+import { CloseIcon } from './IconComponents';
+
+interface JobQueueProps {
+  jobs: GenerationJob[];
+  concurrency: number;
+  // Set while queued jobs are held back because the quota is used up.
+  pausedUntil: number | null;
+  onConcurrencyChange: (concurrency: number) => void;
+  onMove: (id: string, offset: -1 | 1) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onOpen: (job: GenerationJob) => void;
+  onClearFinished: () => void;
+}
+
+const statusStyles: Record<GenerationJob['status'], string> = {
+  queued: 'bg-gray-700 text-gray-300',
+  running: 'bg-cyan-900/60 text-cyan-300',
+  done: 'bg-green-900/50 text-green-300',
+  error: 'bg-red-900/50 text-red-300',
+  cancelled: 'bg-gray-800 text-gray-500',
+};
+
+const statusLabels: Record<GenerationJob['status'], string> = {
+  queued: 'Queued',
+  running: 'Running',
+  done: 'Done',
+  error: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export const JobQueue: React.FC<JobQueueProps> = ({ jobs, concurrency, pausedUntil, onConcurrencyChange, onMove, onCancel, onRetry, onOpen, onClearFinished }) => {
+  const [now, setNow] = useState<number>(Date.now());
+  const isCountingDown = jobs.some(job => job.status === 'running' && job.phase === 'retrying');
+
+  useEffect(() => {
+    if (!isCountingDown) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isCountingDown]);
+
+  const queuedIds = jobs.filter(job => job.status === 'queued').map(job => job.id);
+  const running = jobs.filter(job => job.status === 'running').length;
+  const finished = jobs.filter(isJobFinished).length;
+
+  return (
+    <section className="max-w-7xl mx-auto mt-12 bg-gray-800/50 p-6 rounded-2xl border border-gray-700">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-200">Queue</h2>
+          <p className="text-xs text-gray-500 mt-1">
+            {queuedIds.length} waiting · {running} running · {finished} finished. Each job makes one image and lands in history when done.
+          </p>
+        </div>
+        <div className="flex items-center gap-3 text-sm">
+          <label className="flex items-center gap-2 text-gray-300">
+            Run at once
+            <select
+              value={concurrency}
+              onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+              className="bg-gray-900 border-gray-600 rounded-md text-sm focus:ring-cyan-500 focus:border-cyan-500"
+            >
+              {QUEUE_CONCURRENCY_OPTIONS.map(limit => <option key={limit} value={limit}>{limit}</option>)}
+            </select>
+          </label>
+          <button
+            onClick={onClearFinished}
+            disabled={finished === 0}
+            className="px-3 py-1 bg-gray-700 text-gray-200 font-semibold rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+          >
+            Clear finished
+          </button>
+        </div>
+      </div>
+
+      {pausedUntil !== null && queuedIds.length > 0 && (
+        <p className="mb-3 text-sm text-yellow-400">
+          The generation quota is used up, so the queue is paused until {new Date(pausedUntil).toLocaleString()}.
+        </p>
+      )}
+
+      <ul className="space-y-2">
+        {jobs.map(job => {
+          const queuedIndex = queuedIds.indexOf(job.id);
+          return (
+            <li key={job.id} className="flex items-center gap-3 bg-gray-900/60 border border-gray-700 rounded-lg p-2">
+              <button
+                onClick={() => job.status === 'done' && onOpen(job)}
+                disabled={job.status !== 'done'}
+                className="w-14 h-14 flex-shrink-0 rounded-md overflow-hidden bg-gray-800 border border-gray-700 disabled:cursor-default"
+                aria-label="Open result"
+              >
+                {job.imageUrl ? (
+                  <img src={job.imageUrl} alt={job.prompt} className="w-full h-full object-cover" />
+                ) : job.images[0] ? (
+                  <img src={`data:${job.images[0].mimeType};base64,${job.images[0].base64}`} alt="Input" className="w-full h-full object-cover opacity-40" />
+                ) : null}
+              </button>
+              <div className="flex-grow min-w-0">
+                <p className="text-sm text-gray-200 truncate" title={job.prompt}>{job.prompt}</p>
+                <p className="text-xs text-gray-500">
+                  {job.mode === 'edit' ? 'Edit' : 'Create'} · {job.aspectRatio} · {job.providerId}
+                  {job.template && ` · ${job.template.name}`}
+                </p>
+                {job.status === 'running' && <p className="text-xs text-cyan-300">{describeRequestPhase(job, now)}…</p>}
+                {job.status === 'error' && <p className="text-xs text-red-400 truncate" title={job.error}>{job.error}</p>}
+              </div>
+              <span className={`flex-shrink-0 px-2 py-0.5 rounded text-xs font-semibold ${statusStyles[job.status]}`}>
+                {statusLabels[job.status]}
+              </span>
+              <div className="flex-shrink-0 flex items-center gap-1">
+                {job.status === 'queued' && (
+                  <>
+                    <button
+                      onClick={() => onMove(job.id, -1)}
+                      disabled={queuedIndex === 0}
+                      className="px-2 py-1 text-gray-300 hover:text-white disabled:opacity-30"
+                      aria-label="Move earlier"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => onMove(job.id, 1)}
+                      disabled={queuedIndex === queuedIds.length - 1}
+                      className="px-2 py-1 text-gray-300 hover:text-white disabled:opacity-30"
+                      aria-label="Move later"
+                    >
+                      ↓
+                    </button>
+                  </>
+                )}
+                {(job.status === 'error' || job.status === 'cancelled') && (
+                  <button onClick={() => onRetry(job.id)} className="px-2 py-1 text-xs text-cyan-300 hover:text-cyan-100 font-semibold">
+                    Retry
+                  </button>
+                )}
+                {!isJobFinished(job) && (
+                  <button onClick={() => onCancel(job.id)} className="p-1 text-gray-400 hover:text-red-400 transition-colors" aria-label="Cancel job">
+                    <CloseIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
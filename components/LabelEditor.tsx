@@ -0,0 +1,62 @@
+import React, { useId, useState } from 'react';
+import { mergeLabels, parseLabels } from '../utils/historySearch';
+import { CloseIcon } from './IconComponents';
+
+interface LabelEditorProps {
+  labels: string[];
+  // Labels used elsewhere in history, offered as completions.
+  suggestions: string[];
+  placeholder: string;
+  onChange: (labels: string[]) => void;
+}
+
+export const LabelEditor: React.FC<LabelEditorProps> = ({ labels, suggestions, placeholder, onChange }) => {
+  const [draft, setDraft] = useState<string>('');
+  const listId = useId();
+
+  const commit = () => {
+    const added = parseLabels(draft);
+    setDraft('');
+    if (added.length > 0) {
+      const merged = mergeLabels(labels, added);
+      if (merged.length !== labels.length) onChange(merged);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {labels.map(label => (
+        <span key={label} className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-gray-700 text-gray-200 text-xs rounded-full">
+          {label}
+          <button
+            onClick={() => onChange(labels.filter(item => item !== label))}
+            className="text-gray-400 hover:text-white transition-colors"
+            aria-label={`Remove ${label}`}
+          >
+            <CloseIcon className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={draft}
+        list={listId}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            commit();
+          } else if (e.key === 'Backspace' && !draft && labels.length > 0) {
+            onChange(labels.slice(0, -1));
+          }
+        }}
+        onBlur={commit}
+        placeholder={placeholder}
+        className="flex-grow min-w-[8rem] bg-gray-900 border-gray-600 rounded-md text-xs text-gray-200 py-1 focus:ring-cyan-500 focus:border-cyan-500"
+      />
+      <datalist id={listId}>
+        {suggestions.filter(suggestion => !labels.includes(suggestion)).map(suggestion => <option key={suggestion} value={suggestion} />)}
+      </datalist>
+    </div>
+  );
+};
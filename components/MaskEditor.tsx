@@ -0,0 +1,195 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { ImageFile } from '../types';
+import { drawMaskStrokes, renderMask, MaskStroke, MaskTool } from '../utils/maskUtils';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  // Strokes are owned by the parent so the mask survives closing and reopening the editor.
+  strokes: MaskStroke[];
+  disabled?: boolean;
+  onStrokesChange: (strokes: MaskStroke[]) => void;
+  onMaskChange: (mask: ImageFile | null) => void;
+  onDone: () => void;
+}
+
+const OVERLAY_COLOR = 'rgba(239, 68, 68, 0.5)';
+
+const tools: { id: MaskTool; label: string }[] = [
+  { id: 'brush', label: 'Brush' },
+  { id: 'eraser', label: 'Eraser' },
+  { id: 'lasso', label: 'Lasso' },
+];
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, strokes, disabled = false, onStrokesChange, onMaskChange, onDone }) => {
+  const [redoStack, setRedoStack] = useState<MaskStroke[]>([]);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState<number>(0.05);
+  const [feather, setFeather] = useState<number>(8);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [displaySize, setDisplaySize] = useState<{ width: number; height: number }>({ width: 0, height: 0 });
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const activeStroke = useRef<MaskStroke | null>(null);
+  // Renders and pushes the mask the debounce below is still waiting on, if any.
+  const pendingMask = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    const image = imageRef.current;
+    if (!image) return;
+    const observer = new ResizeObserver(() => setDisplaySize({ width: image.clientWidth, height: image.clientHeight }));
+    observer.observe(image);
+    return () => observer.disconnect();
+  }, []);
+
+  const redraw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    const pending = activeStroke.current ? [...strokes, activeStroke.current] : strokes;
+    drawMaskStrokes(context, pending, canvas.width, canvas.height, OVERLAY_COLOR);
+  }, [strokes]);
+
+  useEffect(() => {
+    redraw();
+  }, [redraw, displaySize]);
+
+  // Re-render the full-resolution mask whenever the strokes or feathering change.
+  useEffect(() => {
+    pendingMask.current = null;
+    if (!naturalSize) return;
+    if (strokes.length === 0) {
+      onMaskChange(null);
+      return;
+    }
+    const push = () => {
+      pendingMask.current = null;
+      onMaskChange({ base64: renderMask(strokes, naturalSize.width, naturalSize.height, feather), mimeType: 'image/png' });
+    };
+    pendingMask.current = push;
+    const timeout = setTimeout(push, 150);
+    return () => clearTimeout(timeout);
+  }, [strokes, feather, naturalSize, onMaskChange]);
+
+  // The last change must not be lost when the editor closes, or when the pointer or focus leaves it
+  // for the Generate button, before the debounce fires.
+  const flushMask = useCallback(() => pendingMask.current?.(), []);
+
+  useEffect(() => flushMask, [flushMask]);
+
+  const handleDone = () => {
+    flushMask();
+    onDone();
+  };
+
+  const toPoint = (event: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return [
+      Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height)),
+    ];
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    activeStroke.current = { tool, size: brushSize, points: [toPoint(event)] };
+    redraw();
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!activeStroke.current) return;
+    activeStroke.current.points.push(toPoint(event));
+    redraw();
+  };
+
+  const handlePointerUp = () => {
+    const stroke = activeStroke.current;
+    activeStroke.current = null;
+    if (!stroke) return;
+    if (stroke.tool === 'lasso' && stroke.points.length < 3) {
+      redraw();
+      return;
+    }
+    onStrokesChange([...strokes, stroke]);
+    setRedoStack([]);
+  };
+
+  const handleUndo = () => {
+    if (strokes.length === 0) return;
+    setRedoStack(prev => [...prev, strokes[strokes.length - 1]]);
+    onStrokesChange(strokes.slice(0, -1));
+  };
+
+  const handleRedo = () => {
+    if (redoStack.length === 0) return;
+    onStrokesChange([...strokes, redoStack[redoStack.length - 1]]);
+    setRedoStack(prev => prev.slice(0, -1));
+  };
+
+  const handleClear = () => {
+    if (strokes.length === 0) return;
+    setRedoStack(prev => [...prev, ...strokes.slice().reverse()]);
+    onStrokesChange([]);
+  };
+
+  const buttonClass = (active: boolean) =>
+    `px-3 py-1 rounded-md text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+      active ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+    }`;
+
+  return (
+    <div className="w-full flex flex-col items-center" onPointerLeave={flushMask} onBlur={flushMask}>
+      <h3 className="text-lg font-semibold text-cyan-300 mb-3">Paint the area to change</h3>
+      <div className="relative w-full bg-gray-800/50 rounded-lg border-2 border-dashed border-gray-600 flex items-center justify-center overflow-hidden">
+        <div className="relative">
+          <img
+            ref={imageRef}
+            src={imageUrl}
+            alt="Original"
+            className="block max-w-full max-h-[28rem] select-none"
+            draggable={false}
+            onLoad={(e) => {
+              const image = e.currentTarget;
+              setNaturalSize({ width: image.naturalWidth, height: image.naturalHeight });
+              setDisplaySize({ width: image.clientWidth, height: image.clientHeight });
+            }}
+          />
+          <canvas
+            ref={canvasRef}
+            width={displaySize.width}
+            height={displaySize.height}
+            className={`absolute inset-0 w-full h-full touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+        </div>
+      </div>
+      <div className="w-full mt-3 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {tools.map(option => (
+            <button key={option.id} onClick={() => setTool(option.id)} disabled={disabled} className={buttonClass(tool === option.id)}>
+              {option.label}
+            </button>
+          ))}
+          <span className="flex-grow" />
+          <button onClick={handleUndo} disabled={disabled || strokes.length === 0} className={buttonClass(false)}>Undo</button>
+          <button onClick={handleRedo} disabled={disabled || redoStack.length === 0} className={buttonClass(false)}>Redo</button>
+          <button onClick={handleClear} disabled={disabled || strokes.length === 0} className={buttonClass(false)}>Clear</button>
+          <button onClick={handleDone} className={buttonClass(true)}>Done</button>
+        </div>
+        <div className="grid grid-cols-2 gap-4 text-sm text-gray-400">
+          <label className="flex flex-col">
+            Brush size
+            <input type="range" min={0.01} max={0.2} step={0.005} value={brushSize} disabled={disabled || tool === 'lasso'} onChange={(e) => setBrushSize(Number(e.target.value))} />
+          </label>
+          <label className="flex flex-col">
+            Feather ({feather}px)
+            <input type="range" min={0} max={48} step={1} value={feather} disabled={disabled} onChange={(e) => setFeather(Number(e.target.value))} />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
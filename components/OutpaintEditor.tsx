@@ -0,0 +1,167 @@
+import React, { useRef, useState } from 'react';
+import type { AspectRatio, ImageFile } from '../types';
+import { parseAspectRatio } from '../utils/aspectRatio';
+
+export interface OutpaintCanvas {
+  image: ImageFile & { previewUrl: string };
+  mask: ImageFile;
+  width: number;
+  height: number;
+}
+
+interface OutpaintEditorProps {
+  imageUrl: string;
+  aspectRatio: AspectRatio;
+  disabled?: boolean;
+  onApply: (canvas: OutpaintCanvas) => void;
+  onCancel: () => void;
+}
+
+const MAX_CANVAS_EDGE = 2048;
+const EMPTY_FILL = '#808080';
+// Let the model repaint a thin band of the source edge so the seam blends.
+const SEAM_OVERLAP = 4;
+
+export const OutpaintEditor: React.FC<OutpaintEditorProps> = ({ imageUrl, aspectRatio, disabled = false, onApply, onCancel }) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [scale, setScale] = useState<number>(1);
+  const [center, setCenter] = useState<{ x: number; y: number }>({ x: 0.5, y: 0.5 });
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+  const target = parseAspectRatio(aspectRatio);
+  const frameRatio = target.width / target.height;
+  const imageRatio = image ? image.naturalWidth / image.naturalHeight : 1;
+  // Source size as a fraction of the frame; scale 1 means "fit inside the frame".
+  const fitWidth = imageRatio > frameRatio ? 1 : imageRatio / frameRatio;
+  const widthFraction = fitWidth * scale;
+  const heightFraction = (widthFraction * frameRatio) / imageRatio;
+
+  const clampCenter = (x: number, y: number) => ({
+    x: Math.min(1 - widthFraction / 2, Math.max(widthFraction / 2, x)),
+    y: Math.min(1 - heightFraction / 2, Math.max(heightFraction / 2, y)),
+  });
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLImageElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = { pointerX: event.clientX, pointerY: event.clientY, ...center };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLImageElement>) => {
+    const start = dragStart.current;
+    const frame = frameRef.current;
+    if (!start || !frame) return;
+    const rect = frame.getBoundingClientRect();
+    setCenter(clampCenter(
+      start.x + (event.clientX - start.pointerX) / rect.width,
+      start.y + (event.clientY - start.pointerY) / rect.height
+    ));
+  };
+
+  const handleScaleChange = (value: number) => {
+    setScale(value);
+    // Re-clamp with the new size so the image never hangs off the canvas.
+    const w = fitWidth * value;
+    const h = (w * frameRatio) / imageRatio;
+    setCenter(prev => ({
+      x: Math.min(1 - w / 2, Math.max(w / 2, prev.x)),
+      y: Math.min(1 - h / 2, Math.max(h / 2, prev.y)),
+    }));
+  };
+
+  const handleApply = () => {
+    if (!image) return;
+    // Keep the source at its native resolution, within the size limit.
+    let width = image.naturalWidth / widthFraction;
+    let height = width / frameRatio;
+    const shrink = Math.min(1, MAX_CANVAS_EDGE / Math.max(width, height));
+    width = Math.round(width * shrink);
+    height = Math.round(height * shrink);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const maskCanvas = document.createElement('canvas');
+    maskCanvas.width = width;
+    maskCanvas.height = height;
+    const context = canvas.getContext('2d');
+    const maskContext = maskCanvas.getContext('2d');
+    if (!context || !maskContext) return;
+
+    const left = (center.x - widthFraction / 2) * width;
+    const top = (center.y - heightFraction / 2) * height;
+    const drawWidth = widthFraction * width;
+    const drawHeight = heightFraction * height;
+
+    context.fillStyle = EMPTY_FILL;
+    context.fillRect(0, 0, width, height);
+    context.drawImage(image, left, top, drawWidth, drawHeight);
+
+    maskContext.fillStyle = '#ffffff';
+    maskContext.fillRect(0, 0, width, height);
+    maskContext.fillStyle = '#000000';
+    maskContext.fillRect(left + SEAM_OVERLAP, top + SEAM_OVERLAP, drawWidth - SEAM_OVERLAP * 2, drawHeight - SEAM_OVERLAP * 2);
+
+    const previewUrl = canvas.toDataURL('image/png');
+    onApply({
+      image: { base64: previewUrl.split(',')[1], mimeType: 'image/png', previewUrl },
+      mask: { base64: maskCanvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' },
+      width,
+      height,
+    });
+  };
+
+  return (
+    <div className="w-full flex flex-col items-center">
+      <h3 className="text-lg font-semibold text-cyan-300 mb-3">Position the image on the {aspectRatio} canvas</h3>
+      <div className="w-full flex justify-center bg-gray-800/50 rounded-lg p-2">
+        <div
+          ref={frameRef}
+          className="relative max-w-full max-h-[28rem] border-2 border-dashed border-cyan-500/60 overflow-hidden"
+          style={{
+            aspectRatio: `${target.width} / ${target.height}`,
+            width: frameRatio >= 1 ? '100%' : 'auto',
+            height: frameRatio >= 1 ? 'auto' : '28rem',
+            // Checkerboard marks the empty area the provider will fill.
+            backgroundImage: 'repeating-conic-gradient(#374151 0% 25%, #1f2937 0% 50%)',
+            backgroundSize: '20px 20px',
+          }}
+        >
+          <img
+            src={imageUrl}
+            alt="Source"
+            draggable={false}
+            onLoad={(e) => setImage(e.currentTarget)}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => { dragStart.current = null; }}
+            className={`absolute select-none touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-move'}`}
+            style={{
+              left: `${(center.x - widthFraction / 2) * 100}%`,
+              top: `${(center.y - heightFraction / 2) * 100}%`,
+              width: `${widthFraction * 100}%`,
+              height: `${heightFraction * 100}%`,
+            }}
+          />
+        </div>
+      </div>
+      <div className="w-full mt-3 flex items-center gap-4">
+        <label className="flex-grow flex flex-col text-sm text-gray-400">
+          Image size ({Math.round(scale * 100)}% of fit)
+          <input type="range" min={0.2} max={1} step={0.01} value={scale} disabled={disabled} onChange={(e) => handleScaleChange(Number(e.target.value))} />
+        </label>
+        <button onClick={onCancel} className="px-3 py-1 rounded-md text-sm font-semibold bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors">
+          Cancel
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={disabled || !image}
+          className="px-3 py-1 rounded-md text-sm font-semibold bg-cyan-600 text-white hover:bg-cyan-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Outpaint
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import React from 'react';
+import { formatByteSize, PreprocessingInfo } from '../utils/imagePreprocess';
+
+interface PreprocessSummaryProps {
+  info: PreprocessingInfo;
+  // Format of the processed image that will be sent.
+  mimeType: string;
+}
+
+const formatLabel = (mimeType: string) => (mimeType.split('/')[1] || 'unknown').toUpperCase();
+
+// One line telling the user exactly what will be uploaded, and how it differs from the file they picked.
+export const PreprocessSummary: React.FC<PreprocessSummaryProps> = ({ info, mimeType }) => (
+  <p className="mt-2 text-xs text-gray-400 text-center" title={info.changes.join(', ')}>
+    Sending {info.width}×{info.height} {formatLabel(mimeType)}, {formatByteSize(info.byteSize)}
+    <span className="text-gray-500">
+      {' '}(from {info.original.width}×{info.original.height} {formatLabel(info.original.mimeType)}, {formatByteSize(info.original.byteSize)}; {info.changes.join(', ')})
+    </span>
+  </p>
+);
@@ -0,0 +1,235 @@
+import React, { useRef, useState } from 'react';
+import type { PresetKind, PromptPreset } from '../types';
+import { exportPresets, extractTemplateVariables, getBuiltInPreset, importPresets, renderTemplate } from '../utils/promptPresets';
+import { DownloadIcon, TrashIcon, UploadIcon } from './IconComponents';
+
+interface PresetLibraryProps {
+  presets: PromptPreset[];
+  activeNegativeId: string | null;
+  disabled?: boolean;
+  onPresetsChange: (presets: PromptPreset[]) => void;
+  onActiveNegativeChange: (id: string | null) => void;
+  // Receives the template with its variables filled in.
+  onApplyTemplate: (preset: PromptPreset, prompt: string) => void;
+  onApplyStyle: (preset: PromptPreset) => void;
+  onError: (message: string) => void;
+}
+
+const tabs: { kind: PresetKind; label: string }[] = [
+  { kind: 'template', label: 'Templates' },
+  { kind: 'style', label: 'Styles' },
+  { kind: 'negative', label: 'Negative Sets' },
+];
+
+const inputClass = 'block w-full bg-gray-900 border-gray-600 rounded-md text-sm focus:ring-cyan-500 focus:border-cyan-500 placeholder-gray-500';
+const smallButtonClass = 'px-2 py-1 rounded-md text-xs font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+export const PresetLibrary: React.FC<PresetLibraryProps> = ({
+  presets,
+  activeNegativeId,
+  disabled = false,
+  onPresetsChange,
+  onActiveNegativeChange,
+  onApplyTemplate,
+  onApplyStyle,
+  onError,
+}) => {
+  const [kind, setKind] = useState<PresetKind>('template');
+  const [editing, setEditing] = useState<PromptPreset | null>(null);
+  const [filling, setFilling] = useState<{ preset: PromptPreset; values: Record<string, string> } | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const visible = presets.filter(preset => preset.kind === kind);
+
+  const handleApply = (preset: PromptPreset) => {
+    if (preset.kind === 'negative') {
+      onActiveNegativeChange(activeNegativeId === preset.id ? null : preset.id);
+    } else if (preset.kind === 'style') {
+      onApplyStyle(preset);
+    } else if (extractTemplateVariables(preset.text).length > 0) {
+      setFilling({ preset, values: {} });
+    } else {
+      onApplyTemplate(preset, preset.text);
+    }
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    if (!editing.name.trim() || !editing.text.trim()) {
+      onError('A preset needs a name and some text.');
+      return;
+    }
+    const exists = presets.some(preset => preset.id === editing.id);
+    onPresetsChange(exists
+      ? presets.map(preset => preset.id === editing.id ? editing : preset)
+      : [...presets, editing]);
+    setEditing(null);
+  };
+
+  const handleDelete = (preset: PromptPreset) => {
+    if (preset.builtIn) {
+      const original = getBuiltInPreset(preset.id);
+      if (original) {
+        onPresetsChange(presets.map(item => item.id === preset.id ? original : item));
+      }
+      return;
+    }
+    if (window.confirm(`Delete the preset "${preset.name}"?`)) {
+      onPresetsChange(presets.filter(item => item.id !== preset.id));
+      if (activeNegativeId === preset.id) {
+        onActiveNegativeChange(null);
+      }
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPresets(presets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'prompt-presets.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      onPresetsChange(importPresets(await file.text(), presets));
+    } catch (e: any) {
+      onError(e.message || 'Failed to import presets.');
+    }
+  };
+
+  const isModifiedBuiltIn = (preset: PromptPreset) => {
+    const original = getBuiltInPreset(preset.id);
+    return !!original && (original.text !== preset.text || original.name !== preset.name || (original.negativePrompt ?? '') !== (preset.negativePrompt ?? ''));
+  };
+
+  return (
+    <div className="bg-gray-900/60 border border-gray-700 rounded-lg p-3 space-y-3">
+      <div className="flex gap-1">
+        {tabs.map(tab => (
+          <button
+            key={tab.kind}
+            onClick={() => { setKind(tab.kind); setEditing(null); setFilling(null); }}
+            className={`${smallButtonClass} ${kind === tab.kind ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {filling ? (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-300">Fill in <span className="font-semibold">{filling.preset.name}</span></p>
+          {extractTemplateVariables(filling.preset.text).map(variable => (
+            <label key={variable} className="block text-xs text-gray-400">
+              {variable}
+              <input
+                className={inputClass}
+                value={filling.values[variable] ?? ''}
+                onChange={(e) => setFilling({ ...filling, values: { ...filling.values, [variable]: e.target.value } })}
+              />
+            </label>
+          ))}
+          <p className="text-xs text-gray-500 italic">{renderTemplate(filling.preset.text, filling.values)}</p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                onApplyTemplate(filling.preset, renderTemplate(filling.preset.text, filling.values));
+                setFilling(null);
+              }}
+              disabled={disabled}
+              className={`${smallButtonClass} bg-cyan-600 text-white hover:bg-cyan-700`}
+            >
+              Use prompt
+            </button>
+            <button onClick={() => setFilling(null)} className={`${smallButtonClass} bg-gray-700 text-gray-300 hover:bg-gray-600`}>Cancel</button>
+          </div>
+        </div>
+      ) : editing ? (
+        <div className="space-y-2">
+          <input className={inputClass} placeholder="Preset name" value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} />
+          <textarea
+            rows={3}
+            className={inputClass}
+            placeholder={kind === 'template' ? 'Prompt text, use {{variable}} for blanks' : kind === 'style' ? 'Style description appended to the prompt' : 'Comma-separated negative terms'}
+            value={editing.text}
+            onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+          />
+          {kind !== 'negative' && (
+            <input
+              className={inputClass}
+              placeholder="Negative terms (optional)"
+              value={editing.negativePrompt ?? ''}
+              onChange={(e) => setEditing({ ...editing, negativePrompt: e.target.value || undefined })}
+            />
+          )}
+          <div className="flex gap-2">
+            <button onClick={handleSave} className={`${smallButtonClass} bg-cyan-600 text-white hover:bg-cyan-700`}>Save</button>
+            <button onClick={() => setEditing(null)} className={`${smallButtonClass} bg-gray-700 text-gray-300 hover:bg-gray-600`}>Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <ul className="space-y-1 max-h-48 overflow-y-auto">
+          {visible.map(preset => (
+            <li key={preset.id} className="flex items-center gap-2 text-sm">
+              <span className="flex-grow truncate text-gray-200" title={preset.text}>
+                {preset.name}
+                {preset.builtIn && <span className="ml-1 text-xs text-gray-500">built-in{isModifiedBuiltIn(preset) ? ', edited' : ''}</span>}
+              </span>
+              <button
+                onClick={() => handleApply(preset)}
+                disabled={disabled}
+                className={`${smallButtonClass} ${preset.kind === 'negative' && activeNegativeId === preset.id ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+              >
+                {preset.kind === 'negative' ? (activeNegativeId === preset.id ? 'Default' : 'Make default') : 'Apply'}
+              </button>
+              <button onClick={() => setEditing(preset)} className={`${smallButtonClass} bg-gray-700 text-gray-200 hover:bg-gray-600`}>Edit</button>
+              {(!preset.builtIn || isModifiedBuiltIn(preset)) && (
+                <button
+                  onClick={() => handleDelete(preset)}
+                  className={`${smallButtonClass} text-red-400 hover:text-red-300`}
+                  aria-label={preset.builtIn ? `Reset ${preset.name}` : `Delete ${preset.name}`}
+                  title={preset.builtIn ? 'Reset to default' : 'Delete'}
+                >
+                  {preset.builtIn ? 'Reset' : <TrashIcon className="w-4 h-4" />}
+                </button>
+              )}
+            </li>
+          ))}
+          {visible.length === 0 && <li className="text-sm text-gray-500">No presets yet.</li>}
+        </ul>
+      )}
+
+      <div className="flex gap-2 pt-1 border-t border-gray-700">
+        <button
+          onClick={() => { setFilling(null); setEditing({ id: crypto.randomUUID(), kind, name: '', text: '' }); }}
+          className={`${smallButtonClass} bg-gray-700 text-gray-200 hover:bg-gray-600`}
+        >
+          New
+        </button>
+        <span className="flex-grow" />
+        <button onClick={() => importRef.current?.click()} className={`${smallButtonClass} flex items-center gap-1 bg-gray-700 text-gray-200 hover:bg-gray-600`}>
+          <UploadIcon className="w-3 h-3" /> Import
+        </button>
+        <button onClick={handleExport} className={`${smallButtonClass} flex items-center gap-1 bg-gray-700 text-gray-200 hover:bg-gray-600`}>
+          <DownloadIcon className="w-3 h-3" /> Export
+        </button>
+        <input
+          ref={importRef}
+          type="file"
+          accept="application/json,.json"
+          className="sr-only"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React, { useMemo, useState } from 'react';
+import { diffWords } from '../utils/textDiff';
+import { CloseIcon } from './IconComponents';
+
+export interface PromptSuggestionState {
+  source: 'enhance' | 'describe';
+  // The prompt when the suggestion was requested, to diff against.
+  original: string;
+  text: string;
+}
+
+interface PromptSuggestionPanelProps {
+  suggestion: PromptSuggestionState;
+  onAccept: (text: string) => void;
+  onDiscard: () => void;
+}
+
+const diffStyles = {
+  same: 'text-gray-300',
+  added: 'bg-green-900/60 text-green-200',
+  removed: 'bg-red-900/50 text-red-300 line-through',
+};
+
+export const PromptSuggestionPanel: React.FC<PromptSuggestionPanelProps> = ({ suggestion, onAccept, onDiscard }) => {
+  const [draft, setDraft] = useState<string>(suggestion.text);
+  const parts = useMemo(() => diffWords(suggestion.original, draft), [suggestion.original, draft]);
+
+  return (
+    <div className="mt-2 bg-gray-900/60 border border-cyan-800/60 rounded-lg p-3 space-y-2 text-sm">
+      <div className="flex justify-between items-center">
+        <span className="font-semibold text-cyan-300">
+          {suggestion.source === 'enhance' ? 'Suggested prompt' : 'Image description'}
+        </span>
+        <button onClick={onDiscard} className="text-gray-400 hover:text-white transition-colors" aria-label="Discard suggestion">
+          <CloseIcon className="w-4 h-4" />
+        </button>
+      </div>
+      {suggestion.original.trim() && (
+        <p className="leading-relaxed whitespace-pre-wrap" aria-label="Changes to your prompt">
+          {parts.map((part, index) => <span key={index} className={diffStyles[part.type]}>{part.text}</span>)}
+        </p>
+      )}
+      <textarea
+        rows={4}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        className="block w-full bg-gray-900 border-gray-600 rounded-md text-sm focus:ring-cyan-500 focus:border-cyan-500"
+        aria-label="Edit the suggestion"
+      />
+      <div className="flex gap-2 justify-end">
+        <button onClick={onDiscard} className="px-3 py-1 bg-gray-700 text-gray-200 font-semibold rounded-md hover:bg-gray-600 transition-colors">
+          Keep mine
+        </button>
+        <button
+          onClick={() => onAccept(draft)}
+          disabled={!draft.trim()}
+          className="px-3 py-1 bg-cyan-600 text-white font-semibold rounded-md hover:bg-cyan-700 disabled:opacity-50 transition-colors"
+        >
+          Use this prompt
+        </button>
+      </div>
+    </div>
+  );
+};
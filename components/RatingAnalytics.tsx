@@ -0,0 +1,79 @@
+import React, { useMemo, useState } from 'react';
+import type { HistoryEntry } from '../types';
+import type { GenerationLogEntry } from '../services/generationLog';
+import { ANALYTICS_DIMENSIONS, AnalyticsDimension, computeRatingAnalytics } from '../utils/ratingAnalytics';
+import { CloseIcon } from './IconComponents';
+
+interface RatingAnalyticsProps {
+  history: HistoryEntry[];
+  log: GenerationLogEntry[];
+  onClose: () => void;
+}
+
+const formatPercent = (value: number | null) => value === null ? '–' : `${Math.round(value * 100)}%`;
+
+export const RatingAnalytics: React.FC<RatingAnalyticsProps> = ({ history, log, onClose }) => {
+  const [dimension, setDimension] = useState<AnalyticsDimension>('template');
+  const rows = useMemo(() => computeRatingAnalytics(history, log, dimension), [history, log, dimension]);
+
+  const failures = log.filter(entry => entry.outcome === 'failure').length;
+  const rated = history.filter(entry => entry.rating > 0);
+  const average = rated.length > 0 ? rated.reduce((total, entry) => total + entry.rating, 0) / rated.length : null;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 space-y-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="font-semibold text-cyan-300">Rating analytics</h3>
+          <p className="text-xs text-gray-400 mt-1">
+            {log.length} logged generation{log.length !== 1 ? 's' : ''}, {formatPercent(log.length > 0 ? failures / log.length : null)} failed
+            · {rated.length} rated image{rated.length !== 1 ? 's' : ''}{average !== null && `, average ${average.toFixed(1)} ★`}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close analytics">
+          <CloseIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {ANALYTICS_DIMENSIONS.map(item => (
+          <button
+            key={item.dimension}
+            onClick={() => setDimension(item.dimension)}
+            className={`px-3 py-1 rounded-md text-xs font-semibold transition-colors ${dimension === item.dimension ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing to analyze yet. Generate and rate a few images first.</p>
+      ) : (
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-gray-400 border-b border-gray-700">
+            <tr>
+              <th className="py-2 font-semibold">{ANALYTICS_DIMENSIONS.find(item => item.dimension === dimension)?.label}</th>
+              <th className="py-2 font-semibold text-right">Avg. rating</th>
+              <th className="py-2 font-semibold text-right">Rated</th>
+              <th className="py-2 font-semibold text-right">Attempts</th>
+              <th className="py-2 font-semibold text-right">Failure rate</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key} className="border-b border-gray-700/50 text-gray-300">
+                <td className="py-2 pr-2 break-all">{row.key}</td>
+                <td className="py-2 text-right">{row.averageRating === null ? '–' : `${row.averageRating.toFixed(1)} ★`}</td>
+                <td className="py-2 text-right">{row.rated}</td>
+                <td className="py-2 text-right">{row.attempts}</td>
+                <td className={`py-2 text-right ${row.failureRate !== null && row.failureRate > 0.25 ? 'text-red-400' : ''}`}>{formatPercent(row.failureRate)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <p className="text-xs text-gray-500">Ratings come from the images in history; attempts and failures from this browser's generation log.</p>
+    </div>
+  );
+};
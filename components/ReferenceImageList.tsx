@@ -0,0 +1,118 @@
+import React, { useRef, useState } from 'react';
+import type { ImageRole, RoleImage } from '../types';
+import { CloseIcon, UploadIcon } from './IconComponents';
+
+export interface ReferenceImage extends RoleImage {
+  id: string;
+  name: string;
+  previewUrl: string;
+}
+
+interface ReferenceImageListProps {
+  images: ReferenceImage[];
+  maxImages: number;
+  disabled?: boolean;
+  onAdd: (files: File[]) => void;
+  onChange: (images: ReferenceImage[]) => void;
+}
+
+export const imageRoleLabels: Record<ImageRole, string> = {
+  subject: 'Subject',
+  style: 'Style reference',
+  background: 'Background',
+  reference: 'Reference',
+};
+
+export const ReferenceImageList: React.FC<ReferenceImageListProps> = ({ images, maxImages, disabled = false, onAdd, onChange }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleDrop = (targetIndex: number) => {
+    if (dragIndex === null || dragIndex === targetIndex) return;
+    const reordered = [...images];
+    const [moved] = reordered.splice(dragIndex, 1);
+    reordered.splice(targetIndex, 0, moved);
+    onChange(reordered);
+  };
+
+  const canAdd = images.length < maxImages;
+
+  return (
+    <div>
+      <h3 className="font-semibold text-gray-300 mb-2">
+        Additional Images <span className="text-gray-500 text-sm">(optional, drag to reorder)</span>
+      </h3>
+      <div className="flex flex-wrap gap-3">
+        {images.map((image, index) => (
+          <div
+            key={image.id}
+            draggable={!disabled}
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDragLeave={() => setDropIndex(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(index);
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            className={`relative w-28 bg-gray-800 rounded-lg border p-1 ${disabled ? '' : 'cursor-grab'} ${
+              dropIndex === index && dragIndex !== index ? 'border-cyan-400' : 'border-gray-700'
+            } ${dragIndex === index ? 'opacity-50' : ''}`}
+          >
+            <img src={image.previewUrl} alt={image.name} className="w-full h-20 object-cover rounded" draggable={false} />
+            <select
+              value={image.role}
+              onChange={(e) => onChange(images.map(item => item.id === image.id ? { ...item, role: e.target.value as ImageRole } : item))}
+              disabled={disabled}
+              className="mt-1 w-full bg-gray-900 border-gray-600 rounded text-xs py-0.5 focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50"
+              aria-label={`Role for ${image.name}`}
+            >
+              {(Object.keys(imageRoleLabels) as ImageRole[]).map(role => (
+                <option key={role} value={role}>{imageRoleLabels[role]}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange(images.filter(item => item.id !== image.id))}
+              disabled={disabled}
+              className="absolute -top-2 -right-2 p-0.5 bg-red-600 text-white rounded-full hover:bg-red-700 disabled:opacity-50"
+              aria-label={`Remove ${image.name}`}
+            >
+              <CloseIcon className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        {canAdd && (
+          <button
+            onClick={() => inputRef.current?.click()}
+            disabled={disabled}
+            className="w-28 h-[7.5rem] flex flex-col items-center justify-center gap-1 border-2 border-dashed border-gray-600 rounded-lg text-gray-400 hover:text-cyan-300 hover:border-cyan-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <UploadIcon className="w-6 h-6" />
+            <span className="text-xs">Add image</span>
+          </button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="sr-only"
+          onChange={(e) => {
+            onAdd(Array.from(e.target.files ?? []));
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {!canAdd && <p className="text-xs text-gray-500 mt-1">This provider accepts up to {maxImages + 1} images per request.</p>}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import type { BatchVariation, RequestPhase } from '../types';
+
+interface RequestStatusProps {
+  variations: BatchVariation[];
+  onCancel: () => void;
+}
+
+export const requestPhaseLabels: Record<RequestPhase, string> = {
+  queued: 'Queued',
+  sending: 'Sending',
+  waiting: 'Waiting for the provider',
+  retrying: 'Retrying',
+  cancelled: 'Cancelled',
+};
+
+// Short description of one pending request, e.g. "Retrying in 4 s (attempt 2)".
+export const describeRequestPhase = (variation: Pick<BatchVariation, 'phase' | 'attempt' | 'retryAt'>, now: number): string => {
+  const label = requestPhaseLabels[variation.phase ?? 'queued'];
+  if (variation.phase === 'retrying' && variation.retryAt) {
+    return `${label} in ${Math.max(0, Math.ceil((variation.retryAt - now) / 1000))} s (attempt ${(variation.attempt ?? 1) + 1})`;
+  }
+  return variation.attempt && variation.attempt > 1 ? `${label} (attempt ${variation.attempt})` : label;
+};
+
+export const RequestStatus: React.FC<RequestStatusProps> = ({ variations, onCancel }) => {
+  const [now, setNow] = useState<number>(Date.now());
+  const pending = variations.filter(variation => variation.status === 'pending');
+  const isCountingDown = pending.some(variation => variation.phase === 'retrying');
+
+  useEffect(() => {
+    if (!isCountingDown) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isCountingDown]);
+
+  if (pending.length === 0) return null;
+  const finished = variations.length - pending.length;
+
+  return (
+    <div className="flex items-center justify-between gap-3 bg-gray-900/60 border border-gray-700 rounded-lg px-3 py-2 text-sm" role="status">
+      <div className="text-gray-300">
+        {pending.length === 1
+          ? `${describeRequestPhase(pending[0], now)}…`
+          : `${pending.length} requests in progress: ${pending.map(variation => describeRequestPhase(variation, now)).join(', ')}`}
+        {finished > 0 && <span className="text-gray-500"> · {finished} finished</span>}
+      </div>
+      <button
+        onClick={onCancel}
+        className="flex-shrink-0 px-3 py-1 bg-red-600/20 text-red-400 font-semibold rounded-lg hover:bg-red-600/40 transition-colors"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+};
@@ -5,13 +5,14 @@ interface StarRatingProps {
   rating: number;
   onRatingChange: (rating: number) => void;
   disabled?: boolean;
+  size?: 'sm' | 'md';
 }
 
-export const StarRating: React.FC<StarRatingProps> = ({ rating, onRatingChange, disabled = false }) => {
+export const StarRating: React.FC<StarRatingProps> = ({ rating, onRatingChange, disabled = false, size = 'md' }) => {
   const [hoverRating, setHoverRating] = useState(0);
 
   return (
-    <div className="flex items-center justify-center space-x-1">
+    <div className={`flex items-center justify-center ${size === 'sm' ? 'space-x-0.5' : 'space-x-1'}`}>
       {[1, 2, 3, 4, 5].map((starIndex) => (
         <button
           key={starIndex}
@@ -23,7 +24,7 @@ export const StarRating: React.FC<StarRatingProps> = ({ rating, onRatingChange,
           disabled={disabled}
         >
           <StarIcon
-            className={`w-8 h-8 ${
+            className={`${size === 'sm' ? 'w-4 h-4' : 'w-8 h-8'} ${
               (hoverRating || rating) >= starIndex
                 ? 'text-yellow-400'
                 : 'text-gray-500'
@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import { exportSequence, SEQUENCE_EXPORT_KINDS, SequenceExportKind } from '../utils/sequenceExport';
+import { CloseIcon, DownloadIcon, ExtendIcon, RetryIcon, TrashIcon } from './IconComponents';
+
+export interface StoryboardFrame {
+  id: string;
+  status: 'pending' | 'done' | 'error';
+  imageUrl?: string;
+  entryId?: string | null;
+  // Custom prompt used to extend the previous frame into this one; empty means the Extend preset.
+  prompt: string;
+  error?: string;
+}
+
+interface StoryboardProps {
+  frames: StoryboardFrame[];
+  isRunning: boolean;
+  defaultPrompt: string;
+  onRun: (count: number, prompts: string[]) => void;
+  onStop: () => void;
+  onRegenerate: (frameId: string) => void;
+  onChange: (frames: StoryboardFrame[]) => void;
+  onOpenFrame: (imageUrl: string) => void;
+  onClose: () => void;
+}
+
+const MAX_FRAMES_PER_RUN = 12;
+
+const inputClass = 'mt-1 block w-full bg-gray-900 border-gray-600 rounded-md text-sm focus:ring-cyan-500 focus:border-cyan-500';
+
+export const Storyboard: React.FC<StoryboardProps> = ({
+  frames,
+  isRunning,
+  defaultPrompt,
+  onRun,
+  onStop,
+  onRegenerate,
+  onChange,
+  onOpenFrame,
+  onClose,
+}) => {
+  const [count, setCount] = useState<number>(4);
+  const [promptText, setPromptText] = useState<string>('');
+  const [exportKind, setExportKind] = useState<SequenceExportKind>('contact-sheet');
+  const [frameDelayMs, setFrameDelayMs] = useState<number>(800);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const handleDrop = (targetIndex: number) => {
+    if (dragIndex === null || dragIndex === targetIndex) return;
+    const reordered = [...frames];
+    const [moved] = reordered.splice(dragIndex, 1);
+    reordered.splice(targetIndex, 0, moved);
+    onChange(reordered);
+  };
+
+  const handleExport = async () => {
+    const finished = frames.filter(frame => frame.status === 'done' && frame.imageUrl);
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      const sequence = await Promise.all(finished.map(async frame => ({
+        blob: await (await fetch(frame.imageUrl!)).blob(),
+        caption: frame.prompt || undefined,
+      })));
+      const result = await exportSequence(sequence, {
+        kind: exportKind,
+        frameDelayMs,
+        baseName: `storyboard-${new Date().toISOString().slice(0, 10)}`,
+      });
+      const url = URL.createObjectURL(result.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = result.fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e: any) {
+      console.error("Failed to export storyboard", e);
+      setMessage(`Export failed: ${e.message ?? 'unknown error'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const isAnimation = exportKind === 'gif' || exportKind === 'webp';
+  const hasFinishedFrames = frames.some(frame => frame.status === 'done');
+
+  return (
+    <section className="max-w-7xl mx-auto mt-12 bg-gray-800/50 p-6 rounded-2xl border border-gray-700 space-y-5">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-200">Storyboard</h2>
+          <p className="text-xs text-gray-500 mt-1">
+            Each new frame extends the one before it. Drag frames to reorder them; regenerating a frame extends its current predecessor.
+          </p>
+        </div>
+        <button onClick={onClose} disabled={isRunning} className="text-gray-400 hover:text-white transition-colors disabled:opacity-50" aria-label="Close storyboard">
+          <CloseIcon className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {frames.map((frame, index) => (
+          <div
+            key={frame.id}
+            draggable={!isRunning}
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDragLeave={() => setDropIndex(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(index);
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            className={`flex-shrink-0 w-40 bg-gray-900 rounded-lg border p-2 space-y-2 ${dropIndex === index && dragIndex !== index ? 'border-cyan-400' : 'border-gray-700'} ${isRunning ? '' : 'cursor-move'}`}
+          >
+            <div className="relative aspect-square bg-gray-800 rounded overflow-hidden flex items-center justify-center">
+              {frame.status === 'done' && frame.imageUrl ? (
+                <img
+                  src={frame.imageUrl}
+                  alt={`Frame ${index + 1}`}
+                  className="w-full h-full object-cover cursor-pointer"
+                  onClick={() => onOpenFrame(frame.imageUrl!)}
+                />
+              ) : frame.status === 'pending' ? (
+                <div className="w-8 h-8 border-4 border-dashed rounded-full animate-spin border-cyan-400"></div>
+              ) : (
+                <p className="text-xs text-red-400 p-2 text-center">{frame.error ?? 'Failed'}</p>
+              )}
+              <span className="absolute top-1 left-1 bg-black/70 text-white text-xs font-bold px-1.5 py-0.5 rounded">{index + 1}</span>
+            </div>
+            <p className="text-xs text-gray-400 truncate" title={frame.prompt || defaultPrompt}>
+              {index === 0 && !frame.prompt ? 'Start' : frame.prompt || 'Extend preset'}
+            </p>
+            <div className="flex justify-between">
+              <button
+                onClick={() => onRegenerate(frame.id)}
+                disabled={isRunning || index === 0 || frame.status === 'pending' || frames[index - 1].status !== 'done'}
+                className="p-1 text-gray-400 hover:text-cyan-300 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                title="Regenerate from the previous frame"
+                aria-label={`Regenerate frame ${index + 1}`}
+              >
+                <RetryIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onChange(frames.filter(item => item.id !== frame.id))}
+                disabled={isRunning}
+                className="p-1 text-gray-400 hover:text-red-400 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                title="Delete frame"
+                aria-label={`Delete frame ${index + 1}`}
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <h3 className="font-semibold text-gray-300">Add frames</h3>
+          <label className="block text-sm text-gray-300">
+            Number of frames
+            <input
+              type="number"
+              min={1}
+              max={MAX_FRAMES_PER_RUN}
+              value={count}
+              onChange={(e) => setCount(Math.min(MAX_FRAMES_PER_RUN, Math.max(1, Number(e.target.value) || 1)))}
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-sm text-gray-300">
+            Per-frame prompts <span className="text-gray-500">(optional, one line per frame; blank lines use the Extend preset)</span>
+            <textarea
+              value={promptText}
+              onChange={(e) => setPromptText(e.target.value)}
+              rows={4}
+              placeholder={defaultPrompt}
+              className={inputClass}
+            />
+          </label>
+          {isRunning ? (
+            <button onClick={onStop} className="w-full px-4 py-2 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 transition-colors">
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={() => onRun(count, promptText.split('\n'))}
+              disabled={!frames.some(frame => frame.status === 'done')}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ExtendIcon className="w-5 h-5" /> Extend {count} frame{count !== 1 ? 's' : ''}
+            </button>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="font-semibold text-gray-300">Export sequence</h3>
+          <label className="block text-sm text-gray-300">
+            Format
+            <select value={exportKind} onChange={(e) => setExportKind(e.target.value as SequenceExportKind)} className={inputClass}>
+              {SEQUENCE_EXPORT_KINDS.map(item => <option key={item.kind} value={item.kind}>{item.label}</option>)}
+            </select>
+          </label>
+          {isAnimation && (
+            <label className="block text-sm text-gray-300">
+              <span className="flex justify-between">Frame duration<span className="text-gray-400">{(frameDelayMs / 1000).toFixed(1)} s</span></span>
+              <input
+                type="range"
+                min={100}
+                max={3000}
+                step={100}
+                value={frameDelayMs}
+                onChange={(e) => setFrameDelayMs(Number(e.target.value))}
+                className="w-full accent-cyan-500"
+              />
+            </label>
+          )}
+          {message && <p className="text-sm text-yellow-300">{message}</p>}
+          <button
+            onClick={handleExport}
+            disabled={isExporting || isRunning || !hasFinishedFrames}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-cyan-600 text-white font-semibold rounded-lg hover:bg-cyan-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <DownloadIcon className="w-5 h-5" /> {isExporting ? 'Exporting…' : 'Export'}
+          </button>
+          <p className="text-xs text-gray-500">Failed and unfinished frames are left out of the export.</p>
+        </div>
+      </div>
+    </section>
+  );
+};
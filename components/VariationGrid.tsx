@@ -0,0 +1,57 @@
+import React from 'react';
+import type { BatchVariation } from '../types';
+import { requestPhaseLabels } from './RequestStatus';
+
+interface VariationGridProps {
+  variations: BatchVariation[];
+  selectedEntryId: string | null;
+  selectedImageUrl: string | null;
+  onSelect: (variation: BatchVariation) => void;
+}
+
+export const VariationGrid: React.FC<VariationGridProps> = ({ variations, selectedEntryId, selectedImageUrl, onSelect }) => {
+  return (
+    <div>
+      <h3 className="text-center font-semibold text-gray-300 mb-2">Variations <span className="text-gray-500 text-sm">(click to pick a winner)</span></h3>
+      <div className={`grid gap-2 ${variations.length > 2 ? 'grid-cols-4' : 'grid-cols-2'}`}>
+        {variations.map((variation) => {
+          const isSelected = variation.status === 'done' && (
+            variation.entryId ? variation.entryId === selectedEntryId : variation.imageUrl === selectedImageUrl
+          );
+          return (
+            <button
+              key={variation.index}
+              onClick={() => variation.status === 'done' && onSelect(variation)}
+              disabled={variation.status !== 'done'}
+              className={`relative aspect-square rounded-lg overflow-hidden border-2 bg-gray-800 transition-colors ${
+                isSelected ? 'border-cyan-400' : 'border-gray-700 hover:border-gray-500'
+              } disabled:cursor-default`}
+              aria-label={`Select variation ${variation.index + 1}`}
+            >
+              {variation.status === 'done' && variation.imageUrl && (
+                <img src={variation.imageUrl} alt={`Variation ${variation.index + 1}`} className="w-full h-full object-cover" />
+              )}
+              {variation.status === 'pending' && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-1">
+                  <div className="w-8 h-8 border-4 border-dashed border-cyan-400 rounded-full animate-spin"></div>
+                  <span className="text-xs text-gray-400 text-center">{requestPhaseLabels[variation.phase ?? 'queued']}</span>
+                </div>
+              )}
+              {variation.status === 'cancelled' && (
+                <div className="absolute inset-0 flex items-center justify-center p-1 text-center text-xs text-gray-500">
+                  Cancelled
+                </div>
+              )}
+              {variation.status === 'error' && (
+                <div className="absolute inset-0 flex items-center justify-center p-1 text-center text-xs text-red-400" title={variation.error}>
+                  Failed
+                </div>
+              )}
+              <span className="absolute top-1 left-1 px-1.5 rounded bg-black/60 text-xs text-gray-200">{variation.index + 1}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
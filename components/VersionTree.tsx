@@ -0,0 +1,96 @@
+import React, { useMemo } from 'react';
+import type { HistoryEntry } from '../types';
+import { buildVersionTree, getLineage, VersionNode } from '../utils/versionTree';
+import { ExtendIcon, WandIcon } from './IconComponents';
+
+interface VersionTreeProps {
+  history: HistoryEntry[];
+  currentId: string | null;
+  disabled?: boolean;
+  onJump: (entry: HistoryEntry) => void;
+  onExtend: (entry: HistoryEntry) => void;
+  onEdit: (entry: HistoryEntry) => void;
+}
+
+const modeBadges = {
+  create: 'bg-cyan-600/30 text-cyan-300',
+  edit: 'bg-gray-600/50 text-gray-300',
+  extend: 'bg-purple-600/30 text-purple-300',
+  outpaint: 'bg-emerald-600/30 text-emerald-300',
+  adjust: 'bg-amber-600/30 text-amber-300',
+};
+
+interface VersionBranchProps extends Omit<VersionTreeProps, 'history'> {
+  node: VersionNode;
+  lineage: Set<string>;
+}
+
+// Single-child chains (typical Extend runs) stay at the same indent so long timelines don't drift right;
+// only real branches are indented.
+const VersionBranch: React.FC<VersionBranchProps> = ({ node, lineage, currentId, disabled, onJump, onExtend, onEdit }) => {
+  const { entry, children } = node;
+  const isCurrent = entry.id === currentId;
+  const isOnLineage = lineage.has(entry.id);
+  const mode = entry.request?.mode;
+
+  return (
+    <li>
+      <div
+        className={`group flex items-center gap-2 p-1.5 rounded-lg border transition-colors ${
+          isCurrent ? 'border-cyan-500 bg-cyan-900/20' : isOnLineage ? 'border-gray-500 bg-gray-700/40' : 'border-transparent hover:bg-gray-700/40'
+        }`}
+      >
+        <button onClick={() => onJump(entry)} disabled={disabled} className="flex items-center gap-2 flex-grow min-w-0 text-left disabled:cursor-not-allowed">
+          <img src={entry.thumbnailUrl} alt="" className="w-10 h-10 rounded object-cover flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-xs text-gray-200 truncate">{entry.request?.prompt || entry.fileName}</p>
+            <p className="text-[10px] text-gray-500 flex items-center gap-1">
+              {mode && <span className={`px-1 rounded ${modeBadges[mode]}`}>{mode}</span>}
+              {new Date(entry.createdAt).toLocaleTimeString()}
+            </p>
+          </div>
+        </button>
+        <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button onClick={() => onExtend(entry)} disabled={disabled} className="p-1 text-purple-300 hover:text-purple-200 disabled:opacity-50" aria-label="Extend from this version" title="Extend from this version">
+            <ExtendIcon className="w-4 h-4" />
+          </button>
+          <button onClick={() => onEdit(entry)} disabled={disabled} className="p-1 text-cyan-300 hover:text-cyan-200 disabled:opacity-50" aria-label="Edit this version" title="Use as input for a new edit">
+            <WandIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      {children.length > 0 && (
+        <ul className={children.length > 1 ? 'ml-4 pl-2 border-l border-gray-700 space-y-1 mt-1' : 'space-y-1 mt-1'}>
+          {children.map(child => (
+            <VersionBranch
+              key={child.entry.id}
+              node={child}
+              lineage={lineage}
+              currentId={currentId}
+              disabled={disabled}
+              onJump={onJump}
+              onExtend={onExtend}
+              onEdit={onEdit}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export const VersionTree: React.FC<VersionTreeProps> = ({ history, currentId, ...props }) => {
+  const roots = useMemo(() => buildVersionTree(history), [history]);
+  const lineage = useMemo(() => new Set(currentId ? getLineage(history, currentId) : []), [history, currentId]);
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-xl p-3">
+      <h3 className="text-sm font-semibold text-gray-300 mb-2">Versions</h3>
+      <ul className="space-y-3 max-h-[32rem] overflow-y-auto pr-1">
+        {roots.map(root => (
+          <VersionBranch key={root.entry.id} node={root} lineage={lineage} currentId={currentId} {...props} />
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface WebcamCaptureProps {
+  onCapture: (blob: Blob) => void;
+  onClose: () => void;
+}
+
+const describeCameraError = (e: unknown): string => {
+  const name = e instanceof DOMException ? e.name : '';
+  if (name === 'NotAllowedError') return 'Camera access was denied. Allow it in the browser’s site settings to take a photo.';
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return 'No camera was found.';
+  if (name === 'NotReadableError') return 'The camera is in use by another application.';
+  return 'The camera could not be started.';
+};
+
+export const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isReady, setIsReady] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('This browser only allows camera access on secure (https or localhost) pages.');
+      return;
+    }
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then((media) => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        if (videoRef.current) {
+          videoRef.current.srcObject = media;
+        }
+      })
+      .catch((e) => {
+        console.error("Failed to start camera", e);
+        if (!cancelled) setError(describeCameraError(e));
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    canvas.toBlob((blob) => {
+      if (blob) {
+        onCapture(blob);
+      } else {
+        setError('The photo could not be captured.');
+      }
+    }, 'image/jpeg', 0.92);
+  };
+
+  return (
+    <div className="flex flex-col flex-grow justify-center items-center gap-3 p-4 border-2 border-gray-600 border-dashed rounded-md">
+      {error ? (
+        <p className="text-sm text-red-400 text-center">{error}</p>
+      ) : (
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          onLoadedMetadata={() => setIsReady(true)}
+          className="w-full max-h-96 rounded-md bg-black object-contain"
+        />
+      )}
+      <div className="flex gap-2">
+        <button onClick={onClose} className="px-4 py-2 bg-gray-700 text-gray-200 text-sm font-semibold rounded-lg hover:bg-gray-600 transition-colors">
+          Cancel
+        </button>
+        {!error && (
+          <button
+            onClick={handleCapture}
+            disabled={!isReady}
+            className="px-4 py-2 bg-cyan-600 text-white text-sm font-semibold rounded-lg hover:bg-cyan-700 transition-colors disabled:opacity-50"
+          >
+            Take photo
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
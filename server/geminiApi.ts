@@ -0,0 +1,319 @@
+import { ApiError, GenerateContentResponse, GoogleGenAI, Modality } from '@google/genai';
+import type { Connect } from 'vite';
+import type { ChatImageReply, ChatImageRequest, ChatMessage, CreateImageRequest, EditImageRequest, EnhancePromptRequest, GeneratedImage, ImageFile, ImageRole, PromptSuggestion, RoleImage } from '../types';
+import { isValidAspectRatio } from '../utils/aspectRatio';
+import { MAX_CHAT_IMAGES, MAX_CHAT_MESSAGES } from '../utils/chatSession';
+import { MAX_BODY_BYTES, MAX_IMAGE_BYTES, MAX_INPUT_IMAGES } from '../utils/imagePreprocess';
+import { classifyGeminiResponse, classifyHttpStatus, GenerationError, GenerationErrorCode } from '../utils/generationErrors';
+import { HttpError, readJsonBody, sendError, sendJson } from './http';
+import { getUserId, QuotaStore } from './quotaApi';
+
+const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+const GEMINI_TEXT_MODEL = 'gemini-2.5-flash';
+
+const MAX_PROMPT_LENGTH = 4000;
+const ALLOWED_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+const IMAGE_ROLES: ImageRole[] = ['subject', 'style', 'background', 'reference'];
+
+// HTTP status for each failure the client gets from Gemini; the body carries the exact code.
+const GENERATION_ERROR_STATUS: Partial<Record<GenerationErrorCode, number>> = {
+  'safety-blocked': 422,
+  'invalid-request': 400,
+  'rate-limited': 429,
+  'provider-unavailable': 503,
+};
+
+// Combine prompts for better results. Default negative terms come from the caller's preset library.
+const buildFullPrompt = ({ prompt, negativePrompt, aspectRatio }: CreateImageRequest): string => `
+    ${prompt}.
+    Generate the image in a ${aspectRatio} aspect ratio.
+    ${negativePrompt.trim() ? `Negative prompt: ${negativePrompt}.` : ''}
+    Ensure the resulting image is high quality and photorealistic.
+  `;
+
+const MASK_INSTRUCTION = `
+    The last image is a mask for the first image. Only change the regions that are white in the mask;
+    keep every black region of the first image exactly as it is, and blend the edges of the change naturally.
+  `;
+
+const ROLE_INSTRUCTIONS: Record<ImageRole, string> = {
+  subject: 'the main subject to edit; keep its identity and key details',
+  style: 'a style reference; match its colors, medium, lighting and mood, but not its content',
+  background: 'a background; place the subject into this scene',
+  reference: 'an additional reference for objects or details to include',
+};
+
+// A single image needs no labels; with several, each one is introduced by a text part naming its role.
+const buildImageParts = (images: RoleImage[], mask?: ImageFile) => {
+  const labelled = images.length > 1;
+  const parts = images.flatMap((image, index) => [
+    ...(labelled ? [{ text: `Image ${index + 1} is ${ROLE_INSTRUCTIONS[image.role]}.` }] : []),
+    { inlineData: { data: image.base64, mimeType: image.mimeType } },
+  ]);
+  if (mask) {
+    parts.push({ inlineData: { data: mask.base64, mimeType: mask.mimeType } });
+  }
+  return parts;
+};
+
+const generateImage = async (ai: GoogleGenAI, images: RoleImage[], request: CreateImageRequest, mask?: ImageFile): Promise<GeneratedImage> => {
+  const response = await ai.models.generateContent({
+    model: GEMINI_IMAGE_MODEL,
+    contents: {
+      parts: [
+        ...buildImageParts(images, mask),
+        {
+          text: mask ? `${buildFullPrompt(request)}${MASK_INSTRUCTION}` : buildFullPrompt(request),
+        },
+      ],
+    },
+    config: {
+      responseModalities: [Modality.IMAGE],
+    },
+  });
+
+  for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+    if (part.inlineData?.data && part.inlineData.mimeType) {
+      return { base64: part.inlineData.data, mimeType: part.inlineData.mimeType, model: GEMINI_IMAGE_MODEL };
+    }
+  }
+
+  throw classifyGeminiResponse(response);
+};
+
+const toChatParts = ({ text, image }: Omit<ChatMessage, 'role'>) => [
+  ...(image ? [{ inlineData: { data: image.base64, mimeType: image.mimeType } }] : []),
+  ...(text ? [{ text }] : []),
+];
+
+// Multi-turn editing: earlier turns go in as conversation history, and TEXT is requested alongside
+// IMAGE so the model can explain a change or ask a question instead of drawing.
+const chat = async (ai: GoogleGenAI, { history, image, ...request }: ChatImageRequest): Promise<ChatImageReply> => {
+  const response = await ai.models.generateContent({
+    model: GEMINI_IMAGE_MODEL,
+    contents: [
+      ...history.map(message => ({ role: message.role, parts: toChatParts(message) })),
+      { role: 'user', parts: toChatParts({ image, text: buildFullPrompt(request) }) },
+    ],
+    config: {
+      responseModalities: [Modality.TEXT, Modality.IMAGE],
+    },
+  });
+
+  const parts = response.candidates?.[0]?.content?.parts ?? [];
+  const text = parts.filter(part => !part.thought).map(part => part.text ?? '').join('').trim() || null;
+  const imagePart = parts.find(part => part.inlineData?.data && part.inlineData.mimeType);
+  if (imagePart?.inlineData?.data && imagePart.inlineData.mimeType) {
+    return { image: { base64: imagePart.inlineData.data, mimeType: imagePart.inlineData.mimeType, model: GEMINI_IMAGE_MODEL }, text, model: GEMINI_IMAGE_MODEL };
+  }
+  // A text-only answer is a valid turn here; blocked and empty responses are still errors.
+  const classified = classifyGeminiResponse(response);
+  if (classified.code === 'no-image' && text) {
+    return { image: null, text, model: GEMINI_IMAGE_MODEL };
+  }
+  throw classified;
+};
+
+const ENHANCE_INSTRUCTIONS: Record<EnhancePromptRequest['mode'], string> = {
+  create: `You rewrite short prompts for an image generation model. Expand the user's prompt into one clear,
+    specific paragraph: subject, setting, composition, lighting, style and mood. Keep every detail the user
+    asked for and do not add text, logos or people they did not mention. Reply with the prompt only.`,
+  edit: `You rewrite short instructions for an image editing model. Turn the user's instruction into one clear,
+    specific instruction: what to change, where, and how it should look, and say that everything else stays
+    unchanged. Keep the user's intent exactly. Reply with the instruction only.`,
+};
+
+const DESCRIBE_INSTRUCTION = `
+    Describe this image in one or two sentences as a prompt for an image model: the main subject, the setting,
+    the style or medium, and the lighting. Reply with the description only.
+  `;
+
+// Text replies are all-or-nothing: a blocked request keeps its safety code, anything else empty is unexpected.
+const readSuggestion = (response: GenerateContentResponse): PromptSuggestion => {
+  const text = response.text?.trim();
+  if (text) {
+    return { text, model: GEMINI_TEXT_MODEL };
+  }
+  const classified = classifyGeminiResponse(response);
+  throw classified.code === 'safety-blocked'
+    ? classified
+    : new GenerationError({ code: 'unknown', message: 'The model returned no text.', finishReason: classified.finishReason });
+};
+
+const enhancePrompt = async (ai: GoogleGenAI, { prompt, mode }: EnhancePromptRequest): Promise<PromptSuggestion> => readSuggestion(
+  await ai.models.generateContent({
+    model: GEMINI_TEXT_MODEL,
+    contents: prompt,
+    config: { systemInstruction: ENHANCE_INSTRUCTIONS[mode] },
+  })
+);
+
+const describeImage = async (ai: GoogleGenAI, image: ImageFile): Promise<PromptSuggestion> => readSuggestion(
+  await ai.models.generateContent({
+    model: GEMINI_TEXT_MODEL,
+    contents: { parts: [{ inlineData: { data: image.base64, mimeType: image.mimeType } }, { text: DESCRIBE_INSTRUCTION }] },
+  })
+);
+
+const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  const message = error instanceof Error ? error.message : 'An unknown error occurred while generating the image.';
+  if (error instanceof ApiError) {
+    return new GenerationError({ code: classifyHttpStatus(error.status, message), message });
+  }
+  return new GenerationError({ code: 'unknown', message });
+};
+
+const parseImageFile = (value: unknown, label: string): ImageFile => {
+  const { base64, mimeType } = (value ?? {}) as Partial<ImageFile>;
+  if (typeof mimeType !== 'string' || !ALLOWED_MIME_TYPES.includes(mimeType)) {
+    throw new HttpError(415, `${label} must be one of: ${ALLOWED_MIME_TYPES.join(', ')}.`);
+  }
+  if (typeof base64 !== 'string' || !/^[A-Za-z0-9+/]+={0,2}$/.test(base64)) {
+    throw new HttpError(400, `${label} is not valid base64 data.`);
+  }
+  if (Buffer.byteLength(base64, 'base64') > MAX_IMAGE_BYTES) {
+    throw new HttpError(413, `${label} is larger than ${(MAX_IMAGE_BYTES / (1024 * 1024)).toFixed(1)} MB.`);
+  }
+  return { base64, mimeType };
+};
+
+const parseCreateRequest = (body: unknown): CreateImageRequest => {
+  const { prompt, negativePrompt = '', aspectRatio } = (body ?? {}) as Partial<CreateImageRequest>;
+  if (typeof prompt !== 'string' || !prompt.trim() || prompt.length > MAX_PROMPT_LENGTH) {
+    throw new HttpError(400, `\`prompt\` must be a non-empty string of at most ${MAX_PROMPT_LENGTH} characters.`);
+  }
+  if (typeof negativePrompt !== 'string' || negativePrompt.length > MAX_PROMPT_LENGTH) {
+    throw new HttpError(400, `\`negativePrompt\` must be a string of at most ${MAX_PROMPT_LENGTH} characters.`);
+  }
+  if (typeof aspectRatio !== 'string' || !isValidAspectRatio(aspectRatio)) {
+    throw new HttpError(400, '`aspectRatio` must look like "16:9".');
+  }
+  return { prompt, negativePrompt, aspectRatio };
+};
+
+const parseEditRequest = (body: unknown): EditImageRequest => {
+  const { images, mask } = (body ?? {}) as Partial<EditImageRequest>;
+  if (!Array.isArray(images) || images.length === 0 || images.length > MAX_INPUT_IMAGES) {
+    throw new HttpError(400, `\`images\` must contain between 1 and ${MAX_INPUT_IMAGES} images.`);
+  }
+  return {
+    ...parseCreateRequest(body),
+    images: images.map((image, index) => {
+      if (!IMAGE_ROLES.includes(image?.role)) {
+        throw new HttpError(400, `Image ${index + 1} has an unknown role.`);
+      }
+      return { ...parseImageFile(image, `Image ${index + 1}`), role: image.role };
+    }),
+    mask: mask === undefined ? undefined : parseImageFile(mask, 'The mask'),
+  };
+};
+
+const parseChatRequest = (body: unknown): ChatImageRequest => {
+  const { history, image } = (body ?? {}) as Partial<ChatImageRequest>;
+  if (!Array.isArray(history) || history.length > MAX_CHAT_MESSAGES) {
+    throw new HttpError(400, `\`history\` must be an array of at most ${MAX_CHAT_MESSAGES} messages.`);
+  }
+  const messages = history.map((message, index): ChatMessage => {
+    if (message?.role !== 'user' && message?.role !== 'model') {
+      throw new HttpError(400, `Message ${index + 1} has an unknown role.`);
+    }
+    if (message.text !== undefined && (typeof message.text !== 'string' || message.text.length > MAX_PROMPT_LENGTH)) {
+      throw new HttpError(400, `Message ${index + 1} must have text of at most ${MAX_PROMPT_LENGTH} characters.`);
+    }
+    if (!message.text && !message.image) {
+      throw new HttpError(400, `Message ${index + 1} has neither text nor an image.`);
+    }
+    return {
+      role: message.role,
+      text: message.text,
+      image: message.image === undefined ? undefined : parseImageFile(message.image, `The image in message ${index + 1}`),
+    };
+  });
+  const parsedImage = image === undefined ? undefined : parseImageFile(image, 'The image');
+  if (messages.filter(message => message.image).length + (parsedImage ? 1 : 0) > MAX_CHAT_IMAGES) {
+    throw new HttpError(400, `A conversation request may include at most ${MAX_CHAT_IMAGES} images.`);
+  }
+  return { ...parseCreateRequest(body), history: messages, image: parsedImage };
+};
+
+const ROUTES = ['/api/images/create', '/api/images/edit', '/api/images/chat', '/api/prompts/enhance', '/api/prompts/describe'];
+
+const parseEnhanceRequest = (body: unknown): EnhancePromptRequest => {
+  const { prompt, mode } = (body ?? {}) as Partial<EnhancePromptRequest>;
+  if (typeof prompt !== 'string' || !prompt.trim() || prompt.length > MAX_PROMPT_LENGTH) {
+    throw new HttpError(400, `\`prompt\` must be a non-empty string of at most ${MAX_PROMPT_LENGTH} characters.`);
+  }
+  if (mode !== 'create' && mode !== 'edit') {
+    throw new HttpError(400, '`mode` must be "create" or "edit".');
+  }
+  return { prompt, mode };
+};
+
+/**
+ * Routes under /api/images, which call Gemini with the server's key so it never reaches the browser:
+ *   POST /api/images/create  text-to-image
+ *   POST /api/images/edit    image(s) plus an optional mask to image
+ *   POST /api/images/chat    the next turn of a conversational edit, with earlier turns as context
+ * Every call redeems one generation from the caller's quota and releases it again if Gemini fails.
+ * The text helpers under /api/prompts use a text model and do not count against the quota:
+ *   POST /api/prompts/enhance   expands a short prompt
+ *   POST /api/prompts/describe  captions an image, to start an edit prompt from
+ */
+export const createGeminiMiddleware = (apiKey: string | undefined, quota: QuotaStore): Connect.NextHandleFunction => {
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+
+  return async (req, res, next) => {
+    const url = (req.url ?? '').split('?')[0];
+    if (!url.startsWith('/api/images') && !url.startsWith('/api/prompts')) {
+      next();
+      return;
+    }
+
+    try {
+      if (req.method !== 'POST' || !ROUTES.includes(url)) {
+        throw new HttpError(404, 'Not found.');
+      }
+      if (!ai) {
+        throw new HttpError(503, 'GEMINI_API_KEY is not set on the server.', undefined, { code: 'invalid-key' });
+      }
+      const body = await readJsonBody(req, MAX_BODY_BYTES);
+      // Requests are validated before a generation is redeemed, so a bad request costs nothing.
+      let run: () => Promise<GeneratedImage | ChatImageReply | PromptSuggestion>;
+      if (url === '/api/prompts/enhance') {
+        const request = parseEnhanceRequest(body);
+        run = () => enhancePrompt(ai, request);
+      } else if (url === '/api/prompts/describe') {
+        const image = parseImageFile((body as { image?: unknown } | null)?.image, 'The image');
+        run = () => describeImage(ai, image);
+      } else if (url === '/api/images/chat') {
+        const request = parseChatRequest(body);
+        run = () => chat(ai, request);
+      } else {
+        const { images, mask, ...request }: EditImageRequest = url === '/api/images/edit'
+          ? parseEditRequest(body)
+          : { ...parseCreateRequest(body), images: [] };
+        run = () => generateImage(ai, images, request, mask);
+      }
+
+      const userId = getUserId(req);
+      const isGeneration = url.startsWith('/api/images');
+      if (isGeneration) {
+        quota.redeem(userId);
+      }
+      try {
+        sendJson(res, 200, await run());
+      } catch (error) {
+        if (isGeneration) {
+          quota.releaseRedeemed(userId);
+        }
+        console.error("Error calling Gemini API:", error);
+        const classified = toGenerationError(error);
+        const { message, ...details } = classified.toJSON();
+        throw new HttpError(GENERATION_ERROR_STATUS[classified.code] ?? 502, message, undefined, details);
+      }
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+};
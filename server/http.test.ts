@@ -0,0 +1,57 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { readJsonBody, sendError, sendJson } from './http';
+
+let server: http.Server | null = null;
+
+const startServer = (maxBytes: number) => new Promise<number>((resolve) => {
+  server = http.createServer(async (req, res) => {
+    try {
+      sendJson(res, 200, await readJsonBody(req, maxBytes));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+  server.listen(0, '127.0.0.1', () => resolve((server!.address() as AddressInfo).port));
+});
+
+// Posts `body` in chunks, like a client uploading a large image, and reads the JSON response.
+const post = (port: number, body: Buffer) => new Promise<{ status: number; data: unknown }>((resolve, reject) => {
+  const req = http.request({ port, host: '127.0.0.1', method: 'POST', path: '/', headers: { 'Content-Type': 'application/json' } }, (res) => {
+    const chunks: Buffer[] = [];
+    res.on('data', (chunk: Buffer) => chunks.push(chunk));
+    res.on('end', () => resolve({ status: res.statusCode ?? 0, data: JSON.parse(Buffer.concat(chunks).toString('utf8')) }));
+  });
+  // Writes after the server stopped reading may fail; only the response matters.
+  req.on('error', (error) => (error as NodeJS.ErrnoException).code === 'EPIPE' ? undefined : reject(error));
+  for (let offset = 0; offset < body.length; offset += 16 * 1024) {
+    req.write(body.subarray(offset, offset + 16 * 1024));
+  }
+  req.end();
+});
+
+afterEach(() => new Promise<void>((resolve) => {
+  server?.closeAllConnections();
+  server?.close(() => resolve());
+  server = null;
+}));
+
+describe('readJsonBody', () => {
+  it('parses a JSON body within the limit', async () => {
+    const port = await startServer(1024);
+    await expect(post(port, Buffer.from('{"prompt":"a cat"}'))).resolves.toEqual({ status: 200, data: { prompt: 'a cat' } });
+  });
+
+  it('answers an oversized body with a JSON 413 instead of resetting the connection', async () => {
+    const port = await startServer(1024);
+    const { status, data } = await post(port, Buffer.alloc(256 * 1024, 'a'));
+    expect(status).toBe(413);
+    expect(data).toEqual({ error: 'Request body exceeds 1024 bytes.' });
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    const port = await startServer(1024);
+    await expect(post(port, Buffer.from('not json'))).resolves.toMatchObject({ status: 400 });
+  });
+});
@@ -0,0 +1,63 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+
+export class HttpError extends Error {
+  // `retryAfterSeconds` becomes a Retry-After header, telling clients when a retry can succeed;
+  // `details` are sent along with the message in the JSON body.
+  constructor(public status: number, message: string, public retryAfterSeconds?: number, public details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const MAX_JSON_BODY_BYTES = 16 * 1024;
+
+export const readJsonBody = (req: IncomingMessage, maxBytes = MAX_JSON_BODY_BYTES): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Stop reading but keep the connection open, so the caller can still send the 413 (see sendError).
+        req.off('data', onData);
+        req.pause();
+        reject(new HttpError(413, `Request body exceeds ${maxBytes} bytes.`));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => {
+      if (chunks.length === 0) {
+        resolve({});
+        return;
+      }
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+export const sendError = (res: ServerResponse, error: unknown) => {
+  const status = error instanceof HttpError ? error.status : 500;
+  if (error instanceof HttpError && error.retryAfterSeconds !== undefined) {
+    res.setHeader('Retry-After', String(Math.max(0, Math.ceil(error.retryAfterSeconds))));
+  }
+  if (status === 413) {
+    // The rest of the request body was never read, so the connection cannot be reused; it is closed
+    // only once the response is out, otherwise the client sees a reset instead of the error.
+    res.setHeader('Connection', 'close');
+    res.once('finish', () => res.req.destroy());
+  }
+  const details = error instanceof HttpError ? error.details : undefined;
+  sendJson(res, status, { ...details, error: error instanceof Error ? error.message : 'Unexpected server error.' });
+};
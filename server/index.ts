@@ -0,0 +1,22 @@
+import type { Plugin } from 'vite';
+import { parseQuotaConfig } from '../utils/quotaPolicy';
+import { createGeminiMiddleware } from './geminiApi';
+import { createQuotaMiddleware, defaultQuotaStatePath, QuotaStore } from './quotaApi';
+
+/**
+ * Mounts the app's local API (quota and the Gemini proxy) on the Vite dev and preview servers,
+ * so `npm run dev` starts the backend alongside the UI.
+ */
+export const apiServer = (env: Record<string, string>): Plugin => {
+  const store = new QuotaStore(parseQuotaConfig(env), env.QUOTA_STATE_FILE || defaultQuotaStatePath());
+  const middlewares = [createQuotaMiddleware(store), createGeminiMiddleware(env.GEMINI_API_KEY, store)];
+  return {
+    name: 'smart-imaginer-api',
+    configureServer(server) {
+      middlewares.forEach(middleware => server.middlewares.use(middleware));
+    },
+    configurePreviewServer(server) {
+      middlewares.forEach(middleware => server.middlewares.use(middleware));
+    },
+  };
+};
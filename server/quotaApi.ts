@@ -0,0 +1,176 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { IncomingMessage } from 'http';
+import type { Connect } from 'vite';
+import { HttpError, readJsonBody, sendError, sendJson } from './http';
+import { consumeQuota, getQuotaStatus, refundQuota, QuotaBucket, QuotaConfig } from '../utils/quotaPolicy';
+
+// Unused reservations are forgotten after this long; their generations simply stay counted.
+const RESERVATION_TTL_MS = 60 * 60 * 1000;
+
+interface Reservation {
+  key: string;
+  // Reserved generations that no server-side generation has used yet.
+  unredeemed: number;
+  expiresAt: number;
+}
+
+/**
+ * Keeps quota buckets in memory and mirrors them to a JSON file so counts survive server restarts.
+ * Clients reserve a batch up front; each proxied generation redeems one reserved slot. Clients may
+ * only refund slots that were never redeemed, so they cannot raise their own budget.
+ */
+export class QuotaStore {
+  private buckets: Record<string, QuotaBucket> = {};
+  private reservations = new Map<string, Reservation>();
+
+  constructor(private config: QuotaConfig, private filePath: string) {
+    try {
+      if (fs.existsSync(filePath)) {
+        this.buckets = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      }
+    } catch (e) {
+      console.error("Failed to read quota state, starting fresh", e);
+    }
+  }
+
+  private keyFor(userId: string) {
+    return this.config.scope === 'user' ? `user:${userId}` : 'global';
+  }
+
+  private persist() {
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(this.buckets));
+    } catch (e) {
+      console.error("Failed to write quota state", e);
+    }
+  }
+
+  status(userId: string) {
+    return getQuotaStatus(this.config, this.buckets[this.keyFor(userId)], Date.now(), 'server');
+  }
+
+  consume(userId: string, count: number) {
+    const key = this.keyFor(userId);
+    const now = Date.now();
+    const { bucket, granted, status } = consumeQuota(this.config, this.buckets[key], now, count, 'server');
+    this.buckets[key] = bucket;
+    this.persist();
+
+    let reservationId: string | null = null;
+    if (granted > 0) {
+      this.pruneReservations(now);
+      reservationId = crypto.randomUUID();
+      this.reservations.set(reservationId, { key, unredeemed: granted, expiresAt: now + RESERVATION_TTL_MS });
+    }
+    return { granted, reservationId, status };
+  }
+
+  refund(userId: string, reservationId: string, count: number) {
+    const key = this.keyFor(userId);
+    const reservation = this.reservations.get(reservationId);
+    if (!reservation || reservation.key !== key || reservation.expiresAt < Date.now()) {
+      throw new HttpError(404, 'Unknown or expired reservation.');
+    }
+    const refunded = Math.min(count, reservation.unredeemed);
+    reservation.unredeemed -= refunded;
+    return this.release(key, refunded);
+  }
+
+  /**
+   * Takes one generation for a server-side request: from a live reservation when the caller has one,
+   * otherwise straight from the bucket. Throws a 429 when the budget is used up.
+   */
+  redeem(userId: string) {
+    const key = this.keyFor(userId);
+    const now = Date.now();
+    for (const reservation of this.reservations.values()) {
+      if (reservation.key === key && reservation.unredeemed > 0 && reservation.expiresAt >= now) {
+        reservation.unredeemed -= 1;
+        return;
+      }
+    }
+    const { bucket, granted, status } = consumeQuota(this.config, this.buckets[key], now, 1, 'server');
+    if (granted === 0) {
+      throw new HttpError(429, 'The generation quota is used up.', (status.resetAt - now) / 1000, { code: 'quota-exhausted' });
+    }
+    this.buckets[key] = bucket;
+    this.persist();
+  }
+
+  // Gives back a redeemed generation whose server-side request failed.
+  releaseRedeemed(userId: string) {
+    return this.release(this.keyFor(userId), 1);
+  }
+
+  private release(key: string, count: number) {
+    const { bucket, status } = refundQuota(this.config, this.buckets[key], Date.now(), count, 'server');
+    this.buckets[key] = bucket;
+    this.persist();
+    return status;
+  }
+
+  private pruneReservations(now: number) {
+    for (const [id, reservation] of this.reservations) {
+      if (reservation.expiresAt < now) {
+        this.reservations.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Who a 'user'-scoped quota is counted for: the client's address as the server sees it. Anything the
+ * client sends itself (an id header, X-Forwarded-For) could be changed at will to get a fresh budget.
+ */
+export const getUserId = (req: IncomingMessage): string => {
+  const address = req.socket.remoteAddress;
+  // IPv4 clients of a dual-stack server show up as IPv4-mapped IPv6 addresses.
+  return address ? address.replace(/^::ffff:/, '') : 'unknown';
+};
+
+const getCount = (body: unknown): number => {
+  const count = Number((body as { count?: unknown })?.count ?? 1);
+  if (!Number.isInteger(count) || count < 1 || count > 100) {
+    throw new HttpError(400, '`count` must be an integer between 1 and 100.');
+  }
+  return count;
+};
+
+/**
+ * Routes under /api/quota:
+ *   GET  /api/quota          current budget for the caller
+ *   POST /api/quota/consume  reserve `count` generations; grants fewer (possibly 0) when the budget is short
+ *   POST /api/quota/refund   give back up to `count` reserved generations that were never used
+ */
+export const createQuotaMiddleware = (store: QuotaStore): Connect.NextHandleFunction => async (req, res, next) => {
+  const url = (req.url ?? '').split('?')[0];
+  if (!url.startsWith('/api/quota')) {
+    next();
+    return;
+  }
+
+  try {
+    const userId = getUserId(req);
+    if (req.method === 'GET' && url === '/api/quota') {
+      sendJson(res, 200, store.status(userId));
+    } else if (req.method === 'POST' && url === '/api/quota/consume') {
+      const result = store.consume(userId, getCount(await readJsonBody(req)));
+      sendJson(res, result.granted > 0 ? 200 : 429, result);
+    } else if (req.method === 'POST' && url === '/api/quota/refund') {
+      const body = await readJsonBody(req);
+      const reservationId = (body as { reservationId?: unknown }).reservationId;
+      if (typeof reservationId !== 'string') {
+        throw new HttpError(400, '`reservationId` is required.');
+      }
+      sendJson(res, 200, store.refund(userId, reservationId, getCount(body)));
+    } else {
+      sendJson(res, 404, { error: 'Not found.' });
+    }
+  } catch (error) {
+    sendError(res, error);
+  }
+};
+
+export const defaultQuotaStatePath = () => path.resolve(process.cwd(), '.quota-state.json');
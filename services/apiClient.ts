@@ -0,0 +1,99 @@
+// Thrown when an /api route answered with something other than JSON, i.e. the app is hosted without its server.
+export class ApiUnavailableError extends Error {
+  constructor() {
+    super('The app server is not available.');
+    this.name = 'ApiUnavailableError';
+  }
+}
+
+// A JSON route answered with an error status. `retryAfterMs` comes from the Retry-After header, if any;
+// `details` holds the rest of the JSON body, such as a generation error code.
+export class ApiStatusError extends Error {
+  constructor(public status: number, message: string, public retryAfterMs: number | null = null, public details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'ApiStatusError';
+  }
+}
+
+export interface ApiCallOptions {
+  signal?: AbortSignal;
+  // Called once the request body has been sent, i.e. while the server is working on the response.
+  onSent?: () => void;
+}
+
+interface RawResponse {
+  status: number;
+  contentType: string;
+  retryAfter: string | null;
+  text: string;
+}
+
+// XMLHttpRequest rather than fetch, because only it reports when the upload has finished.
+const send = (method: string, path: string, body: string | undefined, { signal, onSent }: ApiCallOptions): Promise<RawResponse> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+    const cleanup = () => signal?.removeEventListener('abort', abort);
+    xhr.open(method, path);
+    xhr.setRequestHeader('Content-Type', 'application/json');
+    xhr.upload.onload = () => onSent?.();
+    xhr.onload = () => {
+      cleanup();
+      resolve({
+        status: xhr.status,
+        contentType: xhr.getResponseHeader('content-type') ?? '',
+        retryAfter: xhr.getResponseHeader('retry-after'),
+        text: xhr.responseText,
+      });
+    };
+    // Mirror fetch, which rejects with a TypeError when the server cannot be reached.
+    xhr.onerror = () => {
+      cleanup();
+      reject(new TypeError('Could not reach the app server.'));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(signal?.reason ?? new DOMException('The request was aborted.', 'AbortError'));
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+    xhr.send(body ?? null);
+    if (body === undefined) onSent?.();
+  });
+
+const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Calls one of the app server's JSON routes: GET without a body, POST with one. Error responses are
+ * thrown as `ApiStatusError` with the server's message, except for the statuses in `acceptedStatuses`.
+ */
+export const callApi = async <T>(
+  path: string,
+  body?: unknown,
+  acceptedStatuses: number[] = [],
+  options: ApiCallOptions = {}
+): Promise<{ status: number; data: T }> => {
+  const response = await send(body === undefined ? 'GET' : 'POST', path, body === undefined ? undefined : JSON.stringify(body), options);
+  if (!response.contentType.includes('application/json')) {
+    throw new ApiUnavailableError();
+  }
+  const data = JSON.parse(response.text);
+  const ok = response.status >= 200 && response.status < 300;
+  if (!ok && !acceptedStatuses.includes(response.status)) {
+    const { error, ...details } = data;
+    throw new ApiStatusError(response.status, error || `Request failed with status ${response.status}.`, parseRetryAfter(response.retryAfter), details);
+  }
+  return { status: response.status, data };
+};
+
+// Requests reject with a TypeError when the server cannot be reached at all.
+export const isApiUnavailable = (e: unknown) => e instanceof ApiUnavailableError || e instanceof TypeError;
@@ -1,111 +1,39 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import type { ImageFile, AspectRatio, GeminiImageResponse } from '../types';
-
-export const editImageWithGemini = async (
-  originalImage: ImageFile,
-  prompt: string,
-  negativePrompt: string,
-  aspectRatio: AspectRatio
-): Promise<GeminiImageResponse> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set.");
-  }
-  
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  // Combine prompts for better results
-  const fullPrompt = `
-    ${prompt}.
-    Generate the image in a ${aspectRatio} aspect ratio.
-    Negative prompt: ${negativePrompt}, blurry, ugly, distorted, text, watermark, low quality, bad anatomy.
-    Ensure the resulting image is high quality and photorealistic.
-  `;
-
+import type { GeneratedImage, CreateImageRequest, EditImageRequest, ChatImageRequest, ChatImageReply, EnhancePromptRequest, ImageFile, ImageProvider, PromptSuggestion, ProviderCallOptions } from '../types';
+import { PRESET_ASPECT_RATIOS } from '../utils/aspectRatio';
+import { toGenerationError } from '../utils/requestLifecycle';
+import { callApi } from './apiClient';
+
+// Requests go through the app server (see server/geminiApi.ts), which holds the API key. Failures are
+// rethrown as a GenerationError so the UI can tell a safety block from a bad key or a network drop.
+const callGemini = async <T>(path: string, request: object, options?: ProviderCallOptions): Promise<T> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: originalImage.base64,
-              mimeType: originalImage.mimeType,
-            },
-          },
-          {
-            text: fullPrompt,
-          },
-        ],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE],
-      },
-    });
-
-    for (const part of response.candidates?.[0]?.content?.parts ?? []) {
-      if (part.inlineData) {
-        return { base64: part.inlineData.data, mimeType: part.inlineData.mimeType };
-      }
-    }
-    
-    throw new Error("No image data found in the Gemini API response.");
-
+    return (await callApi<T>(path, request, [], options)).data;
   } catch (error) {
-    console.error("Error calling Gemini API:", error);
-    if (error instanceof Error) {
-        return Promise.reject(new Error(`Failed to generate image: ${error.message}`));
+    // Aborted calls keep their reason, which tells a cancellation from a timeout.
+    if (options?.signal?.aborted) {
+      return Promise.reject(options.signal.reason);
     }
-    return Promise.reject(new Error("An unknown error occurred while generating the image."));
+    console.error("Error calling Gemini API:", error);
+    return Promise.reject(toGenerationError(error));
   }
 };
 
-export const createImageWithGemini = async (
-  prompt: string,
-  negativePrompt: string,
-  aspectRatio: AspectRatio
-): Promise<GeminiImageResponse> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set.");
-  }
-  
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  // Combine prompts for better results
-  const fullPrompt = `
-    ${prompt}.
-    Generate the image in a ${aspectRatio} aspect ratio.
-    Negative prompt: ${negativePrompt}, blurry, ugly, distorted, text, watermark, low quality, bad anatomy.
-    Ensure the resulting image is high quality and photorealistic.
-  `;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            text: fullPrompt,
-          },
-        ],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE],
-      },
-    });
-
-    for (const part of response.candidates?.[0]?.content?.parts ?? []) {
-      if (part.inlineData) {
-        return { base64: part.inlineData.data, mimeType: part.inlineData.mimeType };
-      }
-    }
-    
-    throw new Error("No image data found in the Gemini API response.");
-
-  } catch (error) {
-    console.error("Error calling Gemini API:", error);
-    if (error instanceof Error) {
-        return Promise.reject(new Error(`Failed to generate image: ${error.message}`));
-    }
-    return Promise.reject(new Error("An unknown error occurred while generating the image."));
-  }
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  name: 'Gemini 2.5 Flash Image',
+  capabilities: {
+    aspectRatios: PRESET_ASPECT_RATIOS,
+    // Other ratios are requested in the prompt and enforced by cropping the result.
+    customAspectRatios: true,
+    multiImageInput: true,
+    maxInputImages: 3,
+    maskInput: true,
+  },
+  // Only whether the server has a key is baked into the bundle, never the key itself.
+  isAvailable: () => process.env.GEMINI_PROXY_ENABLED === 'true',
+  create: (request: CreateImageRequest, options?: ProviderCallOptions) => callGemini<GeneratedImage>('/api/images/create', request, options),
+  edit: (request: EditImageRequest, options?: ProviderCallOptions) => callGemini<GeneratedImage>('/api/images/edit', request, options),
+  chat: (request: ChatImageRequest, options?: ProviderCallOptions) => callGemini<ChatImageReply>('/api/images/chat', request, options),
+  enhancePrompt: (request: EnhancePromptRequest, options?: ProviderCallOptions) => callGemini<PromptSuggestion>('/api/prompts/enhance', request, options),
+  describeImage: (image: ImageFile, options?: ProviderCallOptions) => callGemini<PromptSuggestion>('/api/prompts/describe', { image }, options),
 };
@@ -0,0 +1,54 @@
+import type { AspectRatio, GenerationMode, GenerationRequest, ImageProviderId } from '../types';
+
+const LOG_KEY = 'generationLog';
+// Oldest outcomes are dropped beyond this, which keeps the log well inside the localStorage budget.
+const MAX_LOG_ENTRIES = 1000;
+
+// One generation attempt, successful or not. History only keeps successes, so failure rates come from here.
+export interface GenerationLogEntry {
+  at: number;
+  provider: ImageProviderId;
+  mode: GenerationMode;
+  aspectRatio: AspectRatio;
+  // Reported by the provider, so unknown for attempts that failed.
+  model: string | null;
+  template: GenerationRequest['template'] | null;
+  outcome: 'success' | 'failure';
+  // History entry of a successful attempt; its rating is the feedback for this attempt.
+  entryId: string | null;
+  error?: string;
+}
+
+export const loadGenerationLog = (): GenerationLogEntry[] => {
+  try {
+    const data = localStorage.getItem(LOG_KEY);
+    if (data) {
+      const parsed = JSON.parse(data);
+      return Array.isArray(parsed) ? parsed : [];
+    }
+  } catch (e) {
+    console.error("Failed to parse generation log", e);
+  }
+  return [];
+};
+
+/**
+ * Appends an attempt to the log and returns the updated log.
+ */
+export const recordGeneration = (entry: Omit<GenerationLogEntry, 'at'>): GenerationLogEntry[] => {
+  const log = [...loadGenerationLog(), { ...entry, at: Date.now() }].slice(-MAX_LOG_ENTRIES);
+  try {
+    localStorage.setItem(LOG_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.error("Failed to save generation log in localStorage", e);
+  }
+  return log;
+};
+
+export const clearGenerationLog = () => {
+  try {
+    localStorage.removeItem(LOG_KEY);
+  } catch (e) {
+    console.error("Failed to clear generation log", e);
+  }
+};
@@ -0,0 +1,185 @@
+import type { GenerationRequest, HistoryEntry } from '../types';
+import { getLineage } from '../utils/versionTree';
+import { createZip, readZip, ZipFile } from '../utils/zip';
+import { importHistoryEntry, loadHistoryImage } from './historyStore';
+
+const MANIFEST_JSON = 'manifest.json';
+const MANIFEST_CSV = 'manifest.csv';
+const ARCHIVE_VERSION = 1;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+};
+
+export interface ArchiveManifestEntry {
+  id: string;
+  // Path of the image inside the archive.
+  file: string;
+  fileName: string;
+  mimeType: string;
+  createdAt: number;
+  rating: number;
+  // Absent in archives exported before favorites, tags and collections existed.
+  favorite?: boolean;
+  tags?: string[];
+  collections?: string[];
+  request: GenerationRequest | null;
+  // Ids from the root of the version tree down to this entry.
+  lineage: string[];
+}
+
+interface ArchiveManifest {
+  version: number;
+  exportedAt: string;
+  entries: ArchiveManifestEntry[];
+}
+
+export interface ArchiveImportResult {
+  imported: HistoryEntry[];
+  // Entries already in history (same id) or whose image was missing from the archive.
+  skipped: number;
+  // Why the import stopped early, e.g. because browser storage filled up; `imported` still lists the
+  // entries saved before that.
+  error: Error | null;
+}
+
+const CSV_COLUMNS = ['id', 'file', 'fileName', 'createdAt', 'mode', 'prompt', 'negativePrompt', 'aspectRatio', 'model', 'rating', 'favorite', 'tags', 'collections', 'parentId', 'lineage'];
+
+const csvCell = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const buildCsv = (entries: ArchiveManifestEntry[]): string =>
+  [
+    CSV_COLUMNS.join(','),
+    ...entries.map(entry => [
+      entry.id,
+      entry.file,
+      entry.fileName,
+      new Date(entry.createdAt).toISOString(),
+      entry.request?.mode,
+      entry.request?.prompt,
+      entry.request?.negativePrompt,
+      entry.request?.aspectRatio,
+      entry.request?.model,
+      entry.rating,
+      entry.favorite ? 'yes' : '',
+      entry.tags?.join('; '),
+      entry.collections?.join('; '),
+      entry.request?.parentId,
+      entry.lineage.join(' > '),
+    ].map(csvCell).join(',')),
+  ].join('\r\n');
+
+/**
+ * Packs the given entries into a ZIP with their full-size images, a JSON manifest (used for import)
+ * and a CSV manifest for spreadsheets. `history` is the full list, used to resolve lineage.
+ */
+export const exportHistoryArchive = async (entries: HistoryEntry[], history: HistoryEntry[]): Promise<Blob> => {
+  const files: ZipFile[] = [];
+  const manifestEntries: ArchiveManifestEntry[] = [];
+  for (const entry of entries) {
+    const blob = await loadHistoryImage(entry.id);
+    if (!blob) continue;
+    const file = `images/${entry.id}.${EXTENSIONS[blob.type] ?? 'png'}`;
+    files.push({ name: file, data: new Uint8Array(await blob.arrayBuffer()), date: new Date(entry.createdAt) });
+    manifestEntries.push({
+      id: entry.id,
+      file,
+      fileName: entry.fileName,
+      mimeType: blob.type,
+      createdAt: entry.createdAt,
+      rating: entry.rating,
+      favorite: entry.favorite,
+      tags: entry.tags,
+      collections: entry.collections,
+      request: entry.request,
+      lineage: getLineage(history, entry.id),
+    });
+  }
+
+  const manifest: ArchiveManifest = { version: ARCHIVE_VERSION, exportedAt: new Date().toISOString(), entries: manifestEntries };
+  files.push(
+    { name: MANIFEST_JSON, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) },
+    { name: MANIFEST_CSV, data: new TextEncoder().encode(buildCsv(manifestEntries)) }
+  );
+  return createZip(files);
+};
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const isManifestEntry = (value: unknown): value is ArchiveManifestEntry => {
+  const entry = value as ArchiveManifestEntry;
+  return !!entry
+    && typeof entry.id === 'string'
+    && typeof entry.file === 'string'
+    && typeof entry.fileName === 'string'
+    && typeof entry.mimeType === 'string' && entry.mimeType.startsWith('image/')
+    && typeof entry.createdAt === 'number'
+    && (entry.request === null || (typeof entry.request === 'object' && typeof entry.request.prompt === 'string'));
+};
+
+/**
+ * Restores an archive written by `exportHistoryArchive`. Entries keep their ids, so lineage links
+ * survive, and entries that already exist are skipped. Throws when the file is not such an archive;
+ * a failure while saving an entry stops the import but still returns what was saved until then.
+ */
+export const importHistoryArchive = async (archive: Blob): Promise<ArchiveImportResult> => {
+  const files = await readZip(archive);
+  const byName = new Map(files.map(file => [file.name, file]));
+  const manifestFile = byName.get(MANIFEST_JSON);
+  if (!manifestFile) {
+    throw new Error('The archive has no manifest.json, so it was not exported from this app.');
+  }
+
+  let manifest: ArchiveManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestFile.data));
+  } catch {
+    throw new Error('The archive manifest is not valid JSON.');
+  }
+  if (!Array.isArray(manifest?.entries)) {
+    throw new Error('The archive manifest does not list any images.');
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new Error('This archive was created by a newer version of the app.');
+  }
+
+  const imported: HistoryEntry[] = [];
+  let skipped = 0;
+  for (const entry of manifest.entries) {
+    const image = isManifestEntry(entry) ? byName.get(entry.file) : undefined;
+    if (!image) {
+      skipped++;
+      continue;
+    }
+    let restored: HistoryEntry | null;
+    try {
+      restored = await importHistoryEntry({
+        id: entry.id,
+        blob: new Blob([image.data], { type: entry.mimeType }),
+        fileName: entry.fileName,
+        createdAt: entry.createdAt,
+        request: entry.request,
+        rating: typeof entry.rating === 'number' ? entry.rating : 0,
+        favorite: entry.favorite === true,
+        tags: toStringList(entry.tags),
+        collections: toStringList(entry.collections),
+      });
+    } catch (e) {
+      console.error("Failed to import history entry", e);
+      return { imported, skipped, error: e instanceof Error ? e : new Error(String(e)) };
+    }
+    if (restored) {
+      imported.push(restored);
+    } else {
+      skipped++;
+    }
+  }
+  return { imported, skipped, error: null };
+};
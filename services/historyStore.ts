@@ -0,0 +1,305 @@
+import type { HistoryEntry, GenerationRequest } from '../types';
+import { createThumbnail } from '../utils/fileUtils';
+
+const DB_NAME = 'smartImaginerHistory';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const IMAGE_STORE = 'images';
+const THUMBNAIL_MAX_EDGE = 256;
+const MAX_EVICTION_ATTEMPTS = 5;
+
+// Metadata and thumbnail live in ENTRY_STORE so startup never has to read the full-size images.
+interface StoredEntry {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  date: string;
+  createdAt: number;
+  thumbnail: Blob;
+  // Optional because records written before provenance tracking lack them.
+  request?: GenerationRequest | null;
+  rating?: number;
+  favorite?: boolean;
+  tags?: string[];
+  collections?: string[];
+}
+
+interface StoredImage {
+  id: string;
+  blob: Blob;
+}
+
+export interface NewHistoryImage {
+  blob: Blob;
+  fileName: string;
+  request: GenerationRequest;
+}
+
+// An entry restored from an archive keeps its id, so lineage links between restored entries survive.
+export interface ImportedHistoryImage {
+  id: string;
+  blob: Blob;
+  fileName: string;
+  createdAt: number;
+  request: GenerationRequest | null;
+  rating: number;
+  favorite: boolean;
+  tags: string[];
+  collections: string[];
+}
+
+export type HistoryEntryUpdate = Partial<Pick<HistoryEntry, 'rating' | 'favorite' | 'tags' | 'collections'>>;
+
+export class HistoryQuotaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryQuotaError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const thumbnailUrls = new Map<string, string>();
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+        const entries = db.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+        entries.createIndex('createdAt', 'createdAt');
+      }
+      if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+        db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Failed to open the history database.'));
+  });
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('History transaction was aborted.'));
+  });
+
+const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const toHistoryEntry = (record: StoredEntry): HistoryEntry => {
+  let thumbnailUrl = thumbnailUrls.get(record.id);
+  if (!thumbnailUrl) {
+    thumbnailUrl = URL.createObjectURL(record.thumbnail);
+    thumbnailUrls.set(record.id, thumbnailUrl);
+  }
+  return {
+    id: record.id,
+    thumbnailUrl,
+    fileName: record.fileName,
+    mimeType: record.mimeType,
+    date: record.date,
+    createdAt: record.createdAt,
+    request: record.request ?? null,
+    rating: record.rating ?? 0,
+    favorite: record.favorite ?? false,
+    tags: record.tags ?? [],
+    collections: record.collections ?? [],
+  };
+};
+
+const revokeThumbnail = (id: string) => {
+  const url = thumbnailUrls.get(id);
+  if (url) {
+    URL.revokeObjectURL(url);
+    thumbnailUrls.delete(id);
+  }
+};
+
+const deleteOldestEntry = async (): Promise<string | null> => {
+  const db = await openDb();
+  const tx = db.transaction([ENTRY_STORE, IMAGE_STORE], 'readwrite');
+  const cursor = await requestToPromise(tx.objectStore(ENTRY_STORE).index('createdAt').openCursor());
+  if (!cursor) {
+    tx.abort();
+    return null;
+  }
+  const id = (cursor.value as StoredEntry).id;
+  tx.objectStore(ENTRY_STORE).delete(id);
+  tx.objectStore(IMAGE_STORE).delete(id);
+  await transactionDone(tx);
+  revokeThumbnail(id);
+  return id;
+};
+
+const putRecords = async (entry: StoredEntry, image: StoredImage) => {
+  const db = await openDb();
+  const tx = db.transaction([ENTRY_STORE, IMAGE_STORE], 'readwrite');
+  tx.objectStore(ENTRY_STORE).put(entry);
+  tx.objectStore(IMAGE_STORE).put(image);
+  await transactionDone(tx);
+};
+
+/**
+ * Loads all history entries (newest first) with their thumbnails. Full images are fetched
+ * separately through `loadHistoryImage` when the user opens or downloads one.
+ */
+export const loadHistory = async (): Promise<HistoryEntry[]> => {
+  const db = await openDb();
+  const tx = db.transaction(ENTRY_STORE, 'readonly');
+  const records = await requestToPromise(tx.objectStore(ENTRY_STORE).getAll()) as StoredEntry[];
+  return records
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(toHistoryEntry);
+};
+
+export const loadHistoryImage = async (id: string): Promise<Blob | null> => {
+  const db = await openDb();
+  const tx = db.transaction(IMAGE_STORE, 'readonly');
+  const record = await requestToPromise(tx.objectStore(IMAGE_STORE).get(id)) as StoredImage | undefined;
+  return record?.blob ?? null;
+};
+
+/**
+ * Persists a generated image. When the browser's storage quota is exhausted the oldest
+ * entries are evicted one by one; the ids of evicted entries are returned so the caller can
+ * drop them from its state.
+ */
+export const saveHistoryEntry = async (
+  image: NewHistoryImage
+): Promise<{ entry: HistoryEntry; evictedIds: string[] }> => {
+  const createdAt = Date.now();
+  const entry: StoredEntry = {
+    id: crypto.randomUUID(),
+    fileName: image.fileName,
+    mimeType: image.blob.type,
+    date: new Date(createdAt).toLocaleString(),
+    createdAt,
+    thumbnail: await createThumbnail(image.blob, THUMBNAIL_MAX_EDGE),
+    request: image.request,
+    rating: 0,
+    favorite: false,
+    tags: [],
+    collections: [],
+  };
+
+  const evictedIds: string[] = [];
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await putRecords(entry, { id: entry.id, blob: image.blob });
+      return { entry: toHistoryEntry(entry), evictedIds };
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      if (attempt >= MAX_EVICTION_ATTEMPTS) {
+        throw new HistoryQuotaError('Browser storage is full. Clear some history to keep saving new images.');
+      }
+      const evicted = await deleteOldestEntry();
+      if (!evicted) {
+        throw new HistoryQuotaError('Browser storage is full and there is no older history to free up.');
+      }
+      evictedIds.push(evicted);
+    }
+  }
+};
+
+/**
+ * Restores a previously exported entry. Returns null when an entry with the same id already exists.
+ * Unlike `saveHistoryEntry`, a full storage quota is reported instead of evicting older entries.
+ */
+export const importHistoryEntry = async (image: ImportedHistoryImage): Promise<HistoryEntry | null> => {
+  const db = await openDb();
+  const existing = await requestToPromise(db.transaction(ENTRY_STORE, 'readonly').objectStore(ENTRY_STORE).getKey(image.id));
+  if (existing !== undefined) return null;
+
+  const entry: StoredEntry = {
+    id: image.id,
+    fileName: image.fileName,
+    mimeType: image.blob.type,
+    date: new Date(image.createdAt).toLocaleString(),
+    createdAt: image.createdAt,
+    thumbnail: await createThumbnail(image.blob, THUMBNAIL_MAX_EDGE),
+    request: image.request,
+    rating: image.rating,
+    favorite: image.favorite,
+    tags: image.tags,
+    collections: image.collections,
+  };
+  try {
+    await putRecords(entry, { id: entry.id, blob: image.blob });
+  } catch (error) {
+    if (isQuotaError(error)) {
+      throw new HistoryQuotaError('Browser storage is full. Clear some history before importing more images.');
+    }
+    throw error;
+  }
+  return toHistoryEntry(entry);
+};
+
+export const updateHistoryEntry = async (id: string, update: HistoryEntryUpdate): Promise<HistoryEntry | null> => {
+  const db = await openDb();
+  const tx = db.transaction(ENTRY_STORE, 'readwrite');
+  const store = tx.objectStore(ENTRY_STORE);
+  const record = await requestToPromise(store.get(id)) as StoredEntry | undefined;
+  if (!record) {
+    tx.abort();
+    return null;
+  }
+  const updated: StoredEntry = { ...record, ...update };
+  store.put(updated);
+  await transactionDone(tx);
+  return toHistoryEntry(updated);
+};
+
+// Removes one entry and its full image. Entries made from it keep their `parentId`, which then points nowhere.
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([ENTRY_STORE, IMAGE_STORE], 'readwrite');
+  tx.objectStore(ENTRY_STORE).delete(id);
+  tx.objectStore(IMAGE_STORE).delete(id);
+  await transactionDone(tx);
+  revokeThumbnail(id);
+};
+
+export const clearHistory = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([ENTRY_STORE, IMAGE_STORE], 'readwrite');
+  tx.objectStore(ENTRY_STORE).clear();
+  tx.objectStore(IMAGE_STORE).clear();
+  await transactionDone(tx);
+  for (const id of Array.from(thumbnailUrls.keys())) {
+    revokeThumbnail(id);
+  }
+};
+
+/**
+ * Asks the browser not to evict our data under storage pressure and reports current usage.
+ * Both APIs are optional, so failures are ignored.
+ */
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  try {
+    await navigator.storage?.persist?.();
+    const estimate = await navigator.storage?.estimate?.();
+    if (!estimate) return null;
+    return { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0 };
+  } catch (e) {
+    console.error("Failed to read storage estimate", e);
+    return null;
+  }
+};
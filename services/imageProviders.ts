@@ -0,0 +1,35 @@
+import type { ImageProvider, ImageProviderId } from '../types';
+import { geminiProvider } from './geminiService';
+import { mockImageProvider } from './mockImageProvider';
+
+const PROVIDER_KEY = 'imageProvider';
+
+const providers: Record<ImageProviderId, ImageProvider> = {
+  gemini: geminiProvider,
+  mock: mockImageProvider,
+};
+
+export const listImageProviders = (): ImageProvider[] => Object.values(providers);
+
+export const getImageProvider = (id: ImageProviderId): ImageProvider => providers[id];
+
+// Falls back to the mock provider when nothing usable is stored, so the app works without an API key.
+export const getSelectedProviderId = (): ImageProviderId => {
+  try {
+    const stored = localStorage.getItem(PROVIDER_KEY) as ImageProviderId | null;
+    if (stored && stored in providers && providers[stored].isAvailable()) {
+      return stored;
+    }
+  } catch (e) {
+    console.error("Failed to read image provider selection", e);
+  }
+  return geminiProvider.isAvailable() ? geminiProvider.id : mockImageProvider.id;
+};
+
+export const setSelectedProviderId = (id: ImageProviderId) => {
+  try {
+    localStorage.setItem(PROVIDER_KEY, id);
+  } catch (e) {
+    console.error("Failed to save image provider selection in localStorage", e);
+  }
+};
@@ -0,0 +1,237 @@
+import type { ImageFile, GeneratedImage, CreateImageRequest, EditImageRequest, ChatImageRequest, EnhancePromptRequest, ImageProvider, ProviderCallOptions } from '../types';
+import { base64ToBlob } from '../utils/fileUtils';
+import { PRESET_ASPECT_RATIOS, sizeForAspectRatio } from '../utils/aspectRatio';
+
+export const MOCK_IMAGE_MODEL = 'mock-canvas-v1';
+
+const MOCK_LONG_EDGE = 1024;
+const MOCK_LATENCY_MS = 800;
+const MOCK_TEXT_LATENCY_MS = 300;
+
+const MOCK_ENHANCEMENTS: Record<EnhancePromptRequest['mode'], string[]> = {
+  create: ['highly detailed', 'balanced composition', 'soft natural lighting', 'sharp focus'],
+  edit: ['blend the change naturally with the surrounding image', 'keep everything else unchanged'],
+};
+
+// FNV-1a, so the same request always renders the same image.
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const wrapText = (context: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (context.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.slice(0, 6);
+};
+
+const renderMockImage = async (request: CreateImageRequest, sources: ImageBitmap[], seed: number): Promise<GeneratedImage> => {
+  const { width, height } = sizeForAspectRatio(request.aspectRatio, MOCK_LONG_EDGE);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to create a canvas context for the mock provider.');
+  }
+
+  const hue = seed % 360;
+  const gradient = context.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 70%, 45%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 70%, 25%)`);
+  context.fillStyle = gradient;
+  context.fillRect(0, 0, width, height);
+
+  // Lay the source images out side by side, covering the canvas, then tint them so edits are visibly different.
+  sources.forEach((source, index) => {
+    const slotWidth = width / sources.length;
+    const scale = Math.max(slotWidth / source.width, height / source.height);
+    const drawWidth = source.width * scale;
+    const drawHeight = source.height * scale;
+    context.save();
+    context.beginPath();
+    context.rect(index * slotWidth, 0, slotWidth, height);
+    context.clip();
+    context.drawImage(source, index * slotWidth + (slotWidth - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+    context.restore();
+  });
+  if (sources.length > 0) {
+    context.fillStyle = `hsla(${hue}, 80%, 50%, 0.25)`;
+    context.fillRect(0, 0, width, height);
+  }
+
+  const fontSize = Math.round(Math.min(width, height) / 18);
+  context.font = `600 ${fontSize}px sans-serif`;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  const lines = wrapText(context, request.prompt, width * 0.8);
+  const lineHeight = fontSize * 1.3;
+  const top = height / 2 - ((lines.length - 1) * lineHeight) / 2;
+  context.fillStyle = 'rgba(0, 0, 0, 0.45)';
+  context.fillRect(width * 0.05, top - lineHeight, width * 0.9, lines.length * lineHeight + lineHeight);
+  context.fillStyle = '#ffffff';
+  lines.forEach((line, index) => context.fillText(line, width / 2, top + index * lineHeight));
+
+  context.font = `${Math.round(fontSize * 0.6)}px monospace`;
+  context.textAlign = 'right';
+  context.fillText(`${MOCK_IMAGE_MODEL} #${seed.toString(16)}`, width - 16, height - fontSize);
+
+  const dataUrl = canvas.toDataURL('image/png');
+  return { base64: dataUrl.split(',')[1], mimeType: 'image/png', model: MOCK_IMAGE_MODEL };
+};
+
+// Keeps the source pixels outside the mask so masked edits behave like a real inpainting model.
+const applyMask = async (edited: GeneratedImage, source: ImageBitmap, mask: ImageFile): Promise<GeneratedImage> => {
+  const [editedBitmap, maskBitmap] = await Promise.all([
+    createImageBitmap(base64ToBlob(edited.base64, edited.mimeType)),
+    createImageBitmap(base64ToBlob(mask.base64, mask.mimeType)),
+  ]);
+  const { width, height } = editedBitmap;
+
+  const maskCanvas = document.createElement('canvas');
+  maskCanvas.width = width;
+  maskCanvas.height = height;
+  const maskContext = maskCanvas.getContext('2d');
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!maskContext || !context) {
+    throw new Error('Failed to create a canvas context for the mock provider.');
+  }
+
+  // Turn the black/white mask into an alpha mask.
+  maskContext.drawImage(maskBitmap, 0, 0, width, height);
+  const pixels = maskContext.getImageData(0, 0, width, height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    pixels.data[i + 3] = pixels.data[i];
+  }
+  maskContext.putImageData(pixels, 0, 0);
+  maskContext.globalCompositeOperation = 'source-in';
+  maskContext.drawImage(editedBitmap, 0, 0);
+
+  context.drawImage(source, 0, 0, width, height);
+  context.drawImage(maskCanvas, 0, 0);
+  editedBitmap.close();
+  maskBitmap.close();
+
+  const dataUrl = canvas.toDataURL('image/png');
+  return { ...edited, base64: dataUrl.split(',')[1], mimeType: 'image/png' };
+};
+
+const describeColor = (red: number, green: number, blue: number): string => {
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  if (max < 60) return 'dark';
+  if (min > 200) return 'bright, pale';
+  if (max - min < 30) return 'gray';
+  if (max === red) return green > blue + 40 ? 'warm yellow and orange' : 'red';
+  if (max === green) return blue > red + 40 ? 'teal' : 'green';
+  return red > green + 40 ? 'purple' : 'blue';
+};
+
+// Averages the image down to one pixel, which is enough for a plausible offline caption.
+const captionImage = async (image: ImageFile): Promise<string> => {
+  const bitmap = await createImageBitmap(base64ToBlob(image.base64, image.mimeType));
+  const { width, height } = bitmap;
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 1;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Failed to create a canvas context for the mock provider.');
+  }
+  context.drawImage(bitmap, 0, 0, 1, 1);
+  bitmap.close();
+  const [red, green, blue] = context.getImageData(0, 0, 1, 1).data;
+  const orientation = width > height ? 'landscape' : width < height ? 'portrait' : 'square';
+  return `A ${orientation} ${width}×${height} image dominated by ${describeColor(red, green, blue)} tones.`;
+};
+
+// Simulated latency that, like a real request, stops as soon as the call is aborted.
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', abort);
+    resolve();
+  }, ms);
+  const abort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  signal?.addEventListener('abort', abort, { once: true });
+});
+
+/**
+ * Offline stand-in for a real model: renders a deterministic placeholder from the request so the
+ * whole UI can be exercised without an API key or network access.
+ */
+export const mockImageProvider: ImageProvider = {
+  id: 'mock',
+  name: 'Local Mock (offline)',
+  capabilities: {
+    aspectRatios: PRESET_ASPECT_RATIOS,
+    customAspectRatios: true,
+    multiImageInput: true,
+    maxInputImages: 4,
+    maskInput: true,
+  },
+  isAvailable: () => typeof document !== 'undefined',
+  create: async (request: CreateImageRequest, options?: ProviderCallOptions) => {
+    options?.onSent?.();
+    await delay(MOCK_LATENCY_MS, options?.signal);
+    const seed = hashString(`${request.prompt}|${request.negativePrompt}|${request.aspectRatio}`);
+    return renderMockImage(request, [], seed);
+  },
+  edit: async ({ images, mask, ...request }: EditImageRequest, options?: ProviderCallOptions) => {
+    options?.onSent?.();
+    await delay(MOCK_LATENCY_MS, options?.signal);
+    const seed = hashString(`${request.prompt}|${request.negativePrompt}|${request.aspectRatio}|${[...images, ...(mask ? [mask] : [])].map(image => hashString(image.base64)).join(',')}`);
+    const sources = await Promise.all(images.map(image => createImageBitmap(base64ToBlob(image.base64, image.mimeType))));
+    try {
+      const edited = await renderMockImage(request, sources, seed);
+      return mask && sources.length > 0 ? await applyMask(edited, sources[0], mask) : edited;
+    } finally {
+      sources.forEach(source => source.close());
+    }
+  },
+  // Draws every prompt of the conversation over the latest image, so it is visible that context carries over.
+  chat: async ({ history, image, ...request }: ChatImageRequest, options?: ProviderCallOptions) => {
+    const latest = image ?? [...history].reverse().find(message => message.image)?.image;
+    const prompts = [...history.filter(message => message.role === 'user' && message.text).map(message => message.text), request.prompt];
+    const turnRequest = { ...request, prompt: prompts.join(' → ') };
+    const edited = latest
+      ? await mockImageProvider.edit({ ...turnRequest, images: [{ ...latest, role: 'subject' }] }, options)
+      : await mockImageProvider.create(turnRequest, options);
+    return { image: edited, text: `Applied "${request.prompt}" (turn ${prompts.length}).`, model: MOCK_IMAGE_MODEL };
+  },
+  enhancePrompt: async ({ prompt, mode }: EnhancePromptRequest, options?: ProviderCallOptions) => {
+    options?.onSent?.();
+    await delay(MOCK_TEXT_LATENCY_MS, options?.signal);
+    const base = prompt.trim().replace(/[.,;\s]+$/, '');
+    return { text: `${base.charAt(0).toUpperCase()}${base.slice(1)}, ${MOCK_ENHANCEMENTS[mode].join(', ')}.`, model: MOCK_IMAGE_MODEL };
+  },
+  describeImage: async (image: ImageFile, options?: ProviderCallOptions) => {
+    options?.onSent?.();
+    await delay(MOCK_TEXT_LATENCY_MS, options?.signal);
+    return { text: await captionImage(image), model: MOCK_IMAGE_MODEL };
+  },
+};
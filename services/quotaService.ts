@@ -0,0 +1,81 @@
+import type { ImageProviderId } from '../types';
+import {
+  consumeQuota,
+  DEFAULT_QUOTA_CONFIG,
+  getQuotaStatus,
+  refundQuota,
+  QuotaBucket,
+  QuotaStatus,
+} from '../utils/quotaPolicy';
+import { callApi, isApiUnavailable } from './apiClient';
+
+const LOCAL_BUCKET_KEY = 'localQuotaBucket';
+
+export interface QuotaReservation {
+  granted: number;
+  // Needed to refund unused generations on the server; null for local reservations.
+  reservationId: string | null;
+  // False when nothing was taken from the budget (the mock provider), so there is nothing to refund.
+  metered: boolean;
+  status: QuotaStatus;
+}
+
+const readLocalBucket = (): QuotaBucket | undefined => {
+  try {
+    const data = localStorage.getItem(LOCAL_BUCKET_KEY);
+    return data ? JSON.parse(data) as QuotaBucket : undefined;
+  } catch (e) {
+    console.error("Failed to parse local quota bucket", e);
+    return undefined;
+  }
+};
+
+const writeLocalBucket = (bucket: QuotaBucket) => {
+  try {
+    localStorage.setItem(LOCAL_BUCKET_KEY, JSON.stringify(bucket));
+  } catch (e) {
+    console.error("Failed to save local quota bucket in localStorage", e);
+  }
+};
+
+/**
+ * Current budget from the quota server. When the app is served without one (e.g. a static build),
+ * the default policy is applied locally instead and the status is marked `source: 'local'`.
+ */
+export const fetchQuotaStatus = async (): Promise<QuotaStatus> => {
+  try {
+    return (await callApi<QuotaStatus>('/api/quota')).data;
+  } catch (e) {
+    if (!isApiUnavailable(e)) throw e;
+    return getQuotaStatus(DEFAULT_QUOTA_CONFIG, readLocalBucket(), Date.now(), 'local');
+  }
+};
+
+// Reserves up to `count` generations before any request is sent; `granted` may be lower, or 0.
+// The mock provider never reaches the Gemini proxy, which is where reserved slots are redeemed,
+// so its generations are granted without touching the budget.
+export const reserveGenerations = async (count: number, providerId: ImageProviderId): Promise<QuotaReservation> => {
+  if (providerId === 'mock') {
+    return { granted: count, reservationId: null, metered: false, status: await fetchQuotaStatus() };
+  }
+  try {
+    return { ...(await callApi<Omit<QuotaReservation, 'metered'>>('/api/quota/consume', { count }, [429])).data, metered: true };
+  } catch (e) {
+    if (!isApiUnavailable(e)) throw e;
+    const { bucket, granted, status } = consumeQuota(DEFAULT_QUOTA_CONFIG, readLocalBucket(), Date.now(), count, 'local');
+    writeLocalBucket(bucket);
+    return { granted, reservationId: null, metered: true, status };
+  }
+};
+
+// Returns reserved generations whose requests failed, so failures do not count against the budget.
+// The server only refunds slots it did not already release itself.
+export const refundGenerations = async (reservation: QuotaReservation, count: number): Promise<QuotaStatus> => {
+  if (!reservation.metered) return reservation.status;
+  if (reservation.reservationId === null) {
+    const { bucket, status } = refundQuota(DEFAULT_QUOTA_CONFIG, readLocalBucket(), Date.now(), count, 'local');
+    writeLocalBucket(bucket);
+    return status;
+  }
+  return (await callApi<QuotaStatus>('/api/quota/refund', { reservationId: reservation.reservationId, count })).data;
+};
@@ -3,16 +3,192 @@ export interface ImageFile {
   mimeType: string;
 }
 
+export type ImageRole = 'subject' | 'style' | 'background' | 'reference';
+
+// An input image tagged with how the provider should use it.
+export interface RoleImage extends ImageFile {
+  role: ImageRole;
+}
+
+// Presets plus any custom `width:height` ratio.
+export type AspectRatio = '1:1' | '16:9' | '9:16' | `${number}:${number}`;
+
+// 'adjust' entries come from the local post-processing editor rather than a provider.
+export type GenerationMode = 'create' | 'edit' | 'extend' | 'outpaint' | 'adjust';
+
+// Everything that went into a single generation call, so a result can be traced and reproduced.
+export interface GenerationRequest {
+  mode: GenerationMode;
+  prompt: string;
+  negativePrompt: string;
+  aspectRatio: AspectRatio;
+  sourceImageName: string | null;
+  // History entry the source image came from; null for uploads and text-only creations.
+  parentId: string | null;
+  model: string;
+  // True when the edit was restricted to a painted mask.
+  masked?: boolean;
+  // Extra inputs sent after the source image, in order.
+  referenceImages?: { name: string; role: ImageRole }[];
+  // Prompt template the prompt was started from, kept by name too in case the preset is deleted.
+  template?: { id: string; name: string };
+  startedAt: number;
+  durationMs: number;
+}
+
 export interface HistoryEntry {
   id: string;
-  imageUrl: string;
+  // Object URL of the stored thumbnail; the full image is loaded on demand from the history store.
+  thumbnailUrl: string;
   fileName: string;
+  mimeType: string;
   date: string;
+  createdAt: number;
+  // Null for entries saved before provenance was recorded.
+  request: GenerationRequest | null;
+  rating: number;
+  favorite: boolean;
+  // Free-form labels, and the user-defined collections (folders) the image was filed into.
+  tags: string[];
+  collections: string[];
 }
 
-export type AspectRatio = '1:1' | '16:9' | '9:16';
+// Where an in-flight request is: waiting for a free slot, uploading, waiting for the provider,
+// backing off before another attempt, or stopped by the user.
+export type RequestPhase = 'queued' | 'sending' | 'waiting' | 'retrying' | 'cancelled';
+
+// One slot of a batch generation shown in the Step 2 comparison grid.
+export interface BatchVariation {
+  index: number;
+  status: 'pending' | 'done' | 'error' | 'cancelled';
+  // Only meaningful while pending.
+  phase?: RequestPhase;
+  // 1-based attempt number and, while retrying, when the next attempt starts.
+  attempt?: number;
+  retryAt?: number;
+  imageUrl?: string;
+  entryId?: string | null;
+  error?: string;
+}
 
-export interface GeminiImageResponse {
+// A create/edit request waiting in (or finished by) the background queue. Inputs are copied when the
+// job is submitted, so editing the form afterwards does not change queued jobs.
+export interface GenerationJob {
+  id: string;
+  status: 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+  createdAt: number;
+  providerId: ImageProviderId;
+  mode: 'create' | 'edit';
+  prompt: string;
+  // Already combined with the negative preset that was active on submit.
+  negativePrompt: string;
+  aspectRatio: AspectRatio;
+  template: GenerationRequest['template'] | null;
+  images: RoleImage[];
+  mask?: ImageFile;
+  sourceImageName: string | null;
+  parentId: string | null;
+  referenceImages: { name: string; role: ImageRole }[];
+  // Only meaningful while running.
+  phase?: RequestPhase;
+  attempt?: number;
+  retryAt?: number;
+  imageUrl?: string;
+  entryId?: string | null;
+  error?: string;
+}
+
+export interface GeneratedImage {
   base64: string;
   mimeType: string;
+  model: string;
+}
+
+export interface CreateImageRequest {
+  prompt: string;
+  negativePrompt: string;
+  aspectRatio: AspectRatio;
+}
+
+export interface EditImageRequest extends CreateImageRequest {
+  images: RoleImage[];
+  // Black/white PNG matching the first image: white marks the only region the provider may change.
+  mask?: ImageFile;
+}
+
+// One message of a conversational edit session, as sent back to the provider with every new turn.
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text?: string;
+  image?: ImageFile;
+}
+
+export interface ChatImageRequest extends CreateImageRequest {
+  // Earlier turns, oldest first. The new prompt is sent as the next user turn.
+  history: ChatMessage[];
+  // Attached to the new turn, e.g. the image the session starts from.
+  image?: ImageFile;
+}
+
+export interface ChatImageReply {
+  // The model may answer with text only, for example to ask what exactly to change.
+  image: GeneratedImage | null;
+  text: string | null;
+  model: string;
+}
+
+export interface EnhancePromptRequest {
+  prompt: string;
+  // Edit prompts describe a change to an image, create prompts a whole scene; they are expanded differently.
+  mode: 'create' | 'edit';
+}
+
+// Text from the prompt helpers: an enhanced prompt, or a caption of an image.
+export interface PromptSuggestion {
+  text: string;
+  model: string;
+}
+
+export interface ImageProviderCapabilities {
+  aspectRatios: AspectRatio[];
+  customAspectRatios: boolean;
+  multiImageInput: boolean;
+  maxInputImages: number;
+  maskInput: boolean;
+}
+
+// Per-call controls: aborting the call, and a hook for when the request has reached the provider.
+export interface ProviderCallOptions {
+  signal?: AbortSignal;
+  onSent?: () => void;
+}
+
+export type ImageProviderId = 'gemini' | 'mock';
+
+export interface ImageProvider {
+  id: ImageProviderId;
+  name: string;
+  capabilities: ImageProviderCapabilities;
+  // False when the provider cannot be used in this environment, e.g. a missing API key.
+  isAvailable: () => boolean;
+  create: (request: CreateImageRequest, options?: ProviderCallOptions) => Promise<GeneratedImage>;
+  edit: (request: EditImageRequest, options?: ProviderCallOptions) => Promise<GeneratedImage>;
+  // Continues a conversational edit session, with the earlier turns as context.
+  chat: (request: ChatImageRequest, options?: ProviderCallOptions) => Promise<ChatImageReply>;
+  enhancePrompt: (request: EnhancePromptRequest, options?: ProviderCallOptions) => Promise<PromptSuggestion>;
+  describeImage: (image: ImageFile, options?: ProviderCallOptions) => Promise<PromptSuggestion>;
+}
+
+export type PresetKind = 'template' | 'style' | 'negative';
+
+export interface PromptPreset {
+  id: string;
+  kind: PresetKind;
+  name: string;
+  // Templates may contain {{variable}} placeholders; styles are appended to the prompt;
+  // negative sets hold comma-separated terms.
+  text: string;
+  // Extra negative terms applied together with a template or style.
+  negativePrompt?: string;
+  builtIn?: boolean;
 }
@@ -0,0 +1,41 @@
+import type { AspectRatio } from '../types';
+
+// Ratios the model has been tuned for; anything else is a custom ratio.
+export const PRESET_ASPECT_RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16'];
+
+// Relative difference under which two ratios are considered the same (rounding of pixel sizes).
+const RATIO_TOLERANCE = 0.02;
+
+export const parseAspectRatio = (aspectRatio: AspectRatio): { width: number; height: number } => {
+  const [width, height] = aspectRatio.split(':').map(Number);
+  if (!(width > 0) || !(height > 0)) {
+    throw new Error(`Invalid aspect ratio "${aspectRatio}".`);
+  }
+  return { width, height };
+};
+
+export const isValidAspectRatio = (value: string): value is AspectRatio => {
+  const match = value.match(/^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/);
+  return !!match && Number(match[1]) > 0 && Number(match[2]) > 0;
+};
+
+export const sizeForAspectRatio = (aspectRatio: AspectRatio, longEdge: number): { width: number; height: number } => {
+  const { width: w, height: h } = parseAspectRatio(aspectRatio);
+  return w >= h
+    ? { width: longEdge, height: Math.max(1, Math.round((longEdge * h) / w)) }
+    : { width: Math.max(1, Math.round((longEdge * w) / h)), height: longEdge };
+};
+
+export const matchesAspectRatio = (width: number, height: number, aspectRatio: AspectRatio): boolean => {
+  const { width: w, height: h } = parseAspectRatio(aspectRatio);
+  return Math.abs(width / height - w / h) / (w / h) <= RATIO_TOLERANCE;
+};
+
+// Smallest whole-number ratio for a pixel size, e.g. 1920×1080 → "16:9".
+export const aspectRatioFromSize = (width: number, height: number): AspectRatio => {
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+  const w = Math.max(1, Math.round(width));
+  const h = Math.max(1, Math.round(height));
+  const divisor = gcd(w, h);
+  return `${w / divisor}:${h / divisor}`;
+};
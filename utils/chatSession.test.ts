@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { ChatTurn, MAX_CHAT_IMAGES, MAX_CHAT_MESSAGES, toChatHistory } from './chatSession';
+
+const image = { base64: 'aGVsbG8=', mimeType: 'image/png' };
+
+// Alternating user prompts and model replies with an image each, like a long conversation.
+const conversation = (length: number): ChatTurn[] => Array.from({ length }, (_, index) => index % 2 === 0
+  ? { id: String(index), role: 'user', text: `prompt ${index}` }
+  : { id: String(index), role: 'model', image });
+
+describe('toChatHistory', () => {
+  it('keeps a short conversation whole', () => {
+    expect(toChatHistory(conversation(4), MAX_CHAT_IMAGES)).toHaveLength(4);
+  });
+
+  it('sends only the newest messages the server accepts', () => {
+    const history = toChatHistory(conversation(24), MAX_CHAT_IMAGES);
+    expect(history).toHaveLength(MAX_CHAT_MESSAGES);
+    expect(history[0]).toEqual({ role: 'user', text: 'prompt 4' });
+  });
+
+  it('starts the trimmed history with a user turn', () => {
+    const history = toChatHistory(conversation(MAX_CHAT_MESSAGES + 1), MAX_CHAT_IMAGES);
+    expect(history).toHaveLength(MAX_CHAT_MESSAGES - 1);
+    expect(history[0].role).toBe('user');
+  });
+
+  it('keeps only the latest images', () => {
+    const history = toChatHistory(conversation(10), 2);
+    expect(history.filter(message => message.image)).toHaveLength(2);
+    expect(history[1]).toEqual({ role: 'model', text: '(earlier image omitted)' });
+    expect(history[9].image).toEqual(image);
+  });
+});
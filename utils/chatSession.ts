@@ -0,0 +1,51 @@
+import type { ChatMessage, ImageFile } from '../types';
+
+// Limits of one conversation request, shared with the server (see server/geminiApi.ts). Every image of a
+// conversation is sent again with each turn, so only the latest few may be included.
+export const MAX_CHAT_MESSAGES = 20;
+export const MAX_CHAT_IMAGES = 3;
+
+export interface ChatTurn extends ChatMessage {
+  id: string;
+  // History entry saved for the image of a model turn.
+  entryId?: string | null;
+}
+
+export interface ChatSession {
+  // Image the conversation starts from; it is attached to the first prompt.
+  baseImage: ImageFile & { name: string; historyId: string | null };
+  turns: ChatTurn[];
+}
+
+/**
+ * The earlier turns to send with the next prompt: the newest `MAX_CHAT_MESSAGES`, starting with a user
+ * turn. Their text is kept, but only the latest `maxImages` images; older ones are replaced by a short
+ * note so no turn ends up empty.
+ */
+export const toChatHistory = (turns: ChatTurn[], maxImages: number): ChatMessage[] => {
+  let recent = turns.slice(-MAX_CHAT_MESSAGES);
+  const firstUserTurn = recent.findIndex(turn => turn.role === 'user');
+  recent = firstUserTurn === -1 ? [] : recent.slice(firstUserTurn);
+  let imagesLeft = maxImages;
+  return [...recent].reverse().map(({ role, text, image }): ChatMessage => {
+    if (image && imagesLeft > 0) {
+      imagesLeft--;
+      return { role, text, image };
+    }
+    return { role, text: text || (image ? '(earlier image omitted)' : undefined) };
+  }).reverse();
+};
+
+// Drops every turn after `turnId`, or all of them when it is null (back to the starting image).
+export const revertChatSession = (session: ChatSession, turnId: string | null): ChatSession => {
+  const index = turnId === null ? -1 : session.turns.findIndex(turn => turn.id === turnId);
+  return { ...session, turns: session.turns.slice(0, index + 1) };
+};
+
+// The image the next prompt edits: the latest one the model returned, or the starting image.
+export const getChatImage = (session: ChatSession): { image: ImageFile; entryId: string | null } => {
+  const turn = [...session.turns].reverse().find(item => item.role === 'model' && item.image);
+  return turn?.image
+    ? { image: turn.image, entryId: turn.entryId ?? null }
+    : { image: session.baseImage, entryId: session.baseImage.historyId };
+};
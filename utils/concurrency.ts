@@ -0,0 +1,26 @@
+/**
+ * Runs `task` for indices 0..count-1 with at most `limit` tasks in flight at once.
+ * Results are returned in index order, like `Promise.allSettled`.
+ */
+export const runWithConcurrency = async <T>(
+  count: number,
+  limit: number,
+  task: (index: number) => Promise<T>
+): Promise<PromiseSettledResult<T>[]> => {
+  const results: PromiseSettledResult<T>[] = new Array(count);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < count) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, count)) }, worker));
+  return results;
+};
@@ -1,4 +1,7 @@
-export const fileToBase64 = (file: File): Promise<string> => {
+import type { AspectRatio } from '../types';
+import { matchesAspectRatio, parseAspectRatio } from './aspectRatio';
+
+export const fileToBase64 = (file: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -13,3 +16,99 @@ export const fileToBase64 = (file: File): Promise<string> => {
     reader.onerror = (error) => reject(error);
   });
 };
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+// Downscales an image so its longest edge is at most `maxEdge` pixels, re-encoded as JPEG.
+export const createThumbnail = async (blob: Blob, maxEdge: number): Promise<Blob> => {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Failed to create a canvas context for the thumbnail.');
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (result) => (result ? resolve(result) : reject(new Error('Failed to encode thumbnail.'))),
+      'image/jpeg',
+      0.8
+    );
+  });
+};
+
+export interface ConformedImage {
+  base64: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  // Size the provider actually returned, before any cropping.
+  originalWidth: number;
+  originalHeight: number;
+  adjusted: boolean;
+}
+
+/**
+ * Verifies that an image matches `aspectRatio` and, when it does not, center-crops it to that ratio
+ * at the largest size that fits. The original pixels are kept untouched when the ratio already matches.
+ */
+export const conformToAspectRatio = async (
+  image: { base64: string; mimeType: string },
+  aspectRatio: AspectRatio
+): Promise<ConformedImage> => {
+  const bitmap = await createImageBitmap(base64ToBlob(image.base64, image.mimeType));
+  const { width: originalWidth, height: originalHeight } = bitmap;
+  if (matchesAspectRatio(originalWidth, originalHeight, aspectRatio)) {
+    bitmap.close();
+    return { ...image, width: originalWidth, height: originalHeight, originalWidth, originalHeight, adjusted: false };
+  }
+
+  const { width: w, height: h } = parseAspectRatio(aspectRatio);
+  const target = originalWidth / originalHeight > w / h
+    ? { width: Math.round((originalHeight * w) / h), height: originalHeight }
+    : { width: originalWidth, height: Math.round((originalWidth * h) / w) };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = target.width;
+  canvas.height = target.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Failed to create a canvas context for cropping.');
+  }
+  context.drawImage(
+    bitmap,
+    (originalWidth - target.width) / 2,
+    (originalHeight - target.height) / 2,
+    target.width,
+    target.height,
+    0,
+    0,
+    target.width,
+    target.height
+  );
+  bitmap.close();
+
+  const dataUrl = canvas.toDataURL('image/png');
+  return {
+    base64: dataUrl.split(',')[1],
+    mimeType: 'image/png',
+    ...target,
+    originalWidth,
+    originalHeight,
+    adjusted: true,
+  };
+};
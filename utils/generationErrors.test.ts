@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { classifyGeminiResponse, classifyHttpStatus } from './generationErrors';
+
+describe('classifyGeminiResponse', () => {
+  it('reports a blocked prompt with its block reason', () => {
+    const error = classifyGeminiResponse({ promptFeedback: { blockReason: 'PROHIBITED_CONTENT' } });
+    expect(error.code).toBe('safety-blocked');
+    expect(error.finishReason).toBe('PROHIBITED_CONTENT');
+    expect(error.message).toContain('PROHIBITED_CONTENT');
+  });
+
+  it('prefers the block reason message when Gemini sends one', () => {
+    const error = classifyGeminiResponse({ promptFeedback: { blockReason: 'SAFETY', blockReasonMessage: 'Not allowed.' } });
+    expect(error.message).toBe('Not allowed.');
+  });
+
+  it('ignores an unspecified block reason', () => {
+    const error = classifyGeminiResponse({ promptFeedback: { blockReason: 'BLOCKED_REASON_UNSPECIFIED' } });
+    expect(error.code).toBe('no-image');
+  });
+
+  it('reports a safety-filtered output by its finish reason', () => {
+    const error = classifyGeminiResponse({ candidates: [{ finishReason: 'IMAGE_SAFETY' }] });
+    expect(error.code).toBe('safety-blocked');
+    expect(error.finishReason).toBe('IMAGE_SAFETY');
+  });
+
+  it('keeps the text the model answered with instead of an image', () => {
+    const error = classifyGeminiResponse({
+      candidates: [{ finishReason: 'STOP', content: { parts: [{ text: 'I cannot ' }, { text: 'draw that. ' }] } }],
+    });
+    expect(error.code).toBe('no-image');
+    expect(error.modelText).toBe('I cannot draw that.');
+    expect(error.message).toBe('The model replied with text instead of an image.');
+  });
+
+  it('mentions an unusual finish reason for an empty response', () => {
+    expect(classifyGeminiResponse({ candidates: [{ finishReason: 'MAX_TOKENS' }] }).message).toContain('MAX_TOKENS');
+    expect(classifyGeminiResponse({ candidates: [{ finishReason: 'STOP' }] }).message).toBe('The model returned no image.');
+    expect(classifyGeminiResponse({}).code).toBe('no-image');
+  });
+});
+
+describe('classifyHttpStatus', () => {
+  it.each([
+    [401, '', 'invalid-key'],
+    [403, '', 'invalid-key'],
+    [400, 'API key not valid. Please pass a valid API key.', 'invalid-key'],
+    [429, '', 'rate-limited'],
+    [408, '', 'timeout'],
+    [500, '', 'provider-unavailable'],
+    [503, '', 'provider-unavailable'],
+    [400, 'Bad image', 'invalid-request'],
+    [413, '', 'invalid-request'],
+    [302, '', 'unknown'],
+  ] as const)('maps %i %j to %s', (status, message, code) => {
+    expect(classifyHttpStatus(status, message)).toBe(code);
+  });
+});
@@ -0,0 +1,190 @@
+// Typed generation failures, shared by the server (which sees Gemini's raw response) and the client
+// (which turns them into messages and recovery actions). Kept free of SDK imports so both can use it.
+
+export type GenerationErrorCode =
+  // The prompt or an input image was blocked, or the output was filtered.
+  | 'safety-blocked'
+  // The model answered, but without an image (often with a text explanation instead).
+  | 'no-image'
+  | 'invalid-key'
+  // The app's own generation quota is used up.
+  | 'quota-exhausted'
+  // The provider is rate limiting requests.
+  | 'rate-limited'
+  // The provider is overloaded, down, or not configured on the server.
+  | 'provider-unavailable'
+  | 'invalid-request'
+  | 'network'
+  | 'timeout'
+  | 'cancelled'
+  | 'unknown';
+
+export type RecoveryAction = 'retry' | 'edit-prompt' | 'replace-image' | 'switch-provider' | 'wait';
+
+export interface GenerationErrorDetails {
+  code: GenerationErrorCode;
+  message: string;
+  // Gemini's finish reason (e.g. IMAGE_SAFETY) or prompt block reason, when the response had one.
+  finishReason?: string;
+  // Text the model returned instead of an image.
+  modelText?: string;
+  retryAfterMs?: number | null;
+}
+
+export class GenerationError extends Error {
+  code: GenerationErrorCode;
+  finishReason?: string;
+  modelText?: string;
+  retryAfterMs: number | null;
+
+  constructor({ code, message, finishReason, modelText, retryAfterMs = null }: GenerationErrorDetails) {
+    super(message);
+    this.name = 'GenerationError';
+    this.code = code;
+    this.finishReason = finishReason;
+    this.modelText = modelText;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  toJSON(): GenerationErrorDetails {
+    return { code: this.code, message: this.message, finishReason: this.finishReason, modelText: this.modelText, retryAfterMs: this.retryAfterMs };
+  }
+}
+
+const GENERATION_ERROR_CODES: GenerationErrorCode[] = [
+  'safety-blocked', 'no-image', 'invalid-key', 'quota-exhausted', 'rate-limited', 'provider-unavailable',
+  'invalid-request', 'network', 'timeout', 'cancelled', 'unknown',
+];
+
+export const isGenerationErrorCode = (value: unknown): value is GenerationErrorCode =>
+  GENERATION_ERROR_CODES.includes(value as GenerationErrorCode);
+
+// Codes worth retrying automatically; the others need the user to change something first.
+export const RETRYABLE_CODES: GenerationErrorCode[] = ['rate-limited', 'provider-unavailable', 'network', 'timeout'];
+
+const SAFETY_REASONS = [
+  'SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII',
+  'RECITATION', 'IMAGE_RECITATION', 'MODEL_ARMOR',
+];
+
+// The parts of a Gemini generateContent response needed to explain a missing image.
+export interface GeminiResponseLike {
+  promptFeedback?: { blockReason?: string; blockReasonMessage?: string };
+  candidates?: {
+    finishReason?: string;
+    finishMessage?: string;
+    content?: { parts?: { text?: string }[] };
+  }[];
+}
+
+/**
+ * Explains a Gemini response that contained no image: a blocked prompt, a safety-filtered output,
+ * or a text-only answer. The model's text is kept so the user can see what it said instead.
+ */
+export const classifyGeminiResponse = (response: GeminiResponseLike): GenerationError => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const candidate = response.candidates?.[0];
+  const modelText = (candidate?.content?.parts ?? []).map(part => part.text ?? '').join('').trim() || undefined;
+
+  if (blockReason && blockReason !== 'BLOCKED_REASON_UNSPECIFIED') {
+    return new GenerationError({
+      code: 'safety-blocked',
+      message: response.promptFeedback?.blockReasonMessage || `The prompt was blocked (${blockReason}).`,
+      finishReason: blockReason,
+      modelText,
+    });
+  }
+  const finishReason = candidate?.finishReason;
+  if (finishReason && SAFETY_REASONS.includes(finishReason)) {
+    return new GenerationError({
+      code: 'safety-blocked',
+      message: candidate?.finishMessage || `The image was blocked by a safety filter (${finishReason}).`,
+      finishReason,
+      modelText,
+    });
+  }
+  return new GenerationError({
+    code: 'no-image',
+    message: modelText
+      ? 'The model replied with text instead of an image.'
+      : `The model returned no image${finishReason && finishReason !== 'STOP' ? ` (${finishReason})` : ''}.`,
+    finishReason,
+    modelText,
+  });
+};
+
+/**
+ * Classifies an HTTP error from the provider (or from the app server, when it sent no code) by status.
+ */
+export const classifyHttpStatus = (status: number, message: string): GenerationErrorCode => {
+  if (status === 401 || status === 403 || /api[ _-]?key/i.test(message)) return 'invalid-key';
+  if (status === 429) return 'rate-limited';
+  if (status === 408) return 'timeout';
+  if (status >= 500) return 'provider-unavailable';
+  if (status >= 400) return 'invalid-request';
+  return 'unknown';
+};
+
+export interface GenerationErrorHelp {
+  title: string;
+  hint: string;
+  actions: RecoveryAction[];
+}
+
+export const GENERATION_ERROR_HELP: Record<GenerationErrorCode, GenerationErrorHelp> = {
+  'safety-blocked': {
+    title: 'Blocked by a safety filter',
+    hint: 'Rephrase the prompt or use a different input image; retrying the same request will be blocked again.',
+    actions: ['edit-prompt', 'replace-image'],
+  },
+  'no-image': {
+    title: 'No image was returned',
+    hint: 'The model sometimes answers in text. Make the prompt ask for an image more directly, or try again.',
+    actions: ['retry', 'edit-prompt'],
+  },
+  'invalid-key': {
+    title: 'The API key was rejected',
+    hint: 'Check GEMINI_API_KEY on the server and restart it. The offline mock provider works in the meantime.',
+    actions: ['switch-provider'],
+  },
+  'quota-exhausted': {
+    title: 'Generation quota used up',
+    hint: 'More generations become available when the quota resets.',
+    actions: ['wait'],
+  },
+  'rate-limited': {
+    title: 'The provider is rate limiting requests',
+    hint: 'Wait a moment, then try again with fewer variations in parallel.',
+    actions: ['retry'],
+  },
+  'provider-unavailable': {
+    title: 'The provider is unavailable',
+    hint: 'The service is overloaded or not configured. Try again shortly, or switch to the offline mock provider.',
+    actions: ['retry', 'switch-provider'],
+  },
+  'invalid-request': {
+    title: 'The request was rejected',
+    hint: 'An input is not accepted, for example an image that is too large or in an unsupported format.',
+    actions: ['edit-prompt', 'replace-image'],
+  },
+  network: {
+    title: 'Network problem',
+    hint: 'The app server could not be reached. Check your connection and try again.',
+    actions: ['retry'],
+  },
+  timeout: {
+    title: 'The request timed out',
+    hint: 'The provider took too long. Try again, or allow a longer timeout.',
+    actions: ['retry'],
+  },
+  cancelled: {
+    title: 'Cancelled',
+    hint: 'The request was cancelled.',
+    actions: ['retry'],
+  },
+  unknown: {
+    title: 'Something went wrong',
+    hint: 'An unexpected error occurred. Try again.',
+    actions: ['retry'],
+  },
+};
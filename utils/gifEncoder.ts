@@ -0,0 +1,186 @@
+// Animated GIF encoder. All frames share one fixed 6×7×6 color cube palette, and Floyd–Steinberg
+// dithering hides most of the banding that a fixed palette would otherwise cause.
+
+const RED_LEVELS = 6;
+const GREEN_LEVELS = 7;
+const BLUE_LEVELS = 6;
+const MIN_CODE_SIZE = 8;
+const MAX_CODE = 4095;
+
+const level = (value: number, levels: number) => Math.min(levels - 1, Math.max(0, Math.round((value / 255) * (levels - 1))));
+const levelValue = (index: number, levels: number) => Math.round((index * 255) / (levels - 1));
+
+const buildPalette = (): Uint8Array => {
+  const palette = new Uint8Array(256 * 3);
+  let i = 0;
+  for (let r = 0; r < RED_LEVELS; r++) {
+    for (let g = 0; g < GREEN_LEVELS; g++) {
+      for (let b = 0; b < BLUE_LEVELS; b++) {
+        palette[i++] = levelValue(r, RED_LEVELS);
+        palette[i++] = levelValue(g, GREEN_LEVELS);
+        palette[i++] = levelValue(b, BLUE_LEVELS);
+      }
+    }
+  }
+  return palette;
+};
+
+const PALETTE = buildPalette();
+
+const quantize = ({ data, width, height }: ImageData): Uint8Array => {
+  const pixels = new Uint8Array(width * height);
+  // Working copy so error diffusion can push values outside 0–255.
+  const channels = Float32Array.from(data);
+  const spread = (index: number, errors: number[], factor: number) => {
+    if (index < 0 || index >= channels.length) return;
+    channels[index] += errors[0] * factor;
+    channels[index + 1] += errors[1] * factor;
+    channels[index + 2] += errors[2] * factor;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const r = level(channels[i], RED_LEVELS);
+      const g = level(channels[i + 1], GREEN_LEVELS);
+      const b = level(channels[i + 2], BLUE_LEVELS);
+      const paletteIndex = (r * GREEN_LEVELS + g) * BLUE_LEVELS + b;
+      pixels[y * width + x] = paletteIndex;
+      const errors = [
+        channels[i] - PALETTE[paletteIndex * 3],
+        channels[i + 1] - PALETTE[paletteIndex * 3 + 1],
+        channels[i + 2] - PALETTE[paletteIndex * 3 + 2],
+      ];
+      if (x + 1 < width) spread(i + 4, errors, 7 / 16);
+      if (y + 1 < height) {
+        if (x > 0) spread(i + (width - 1) * 4, errors, 3 / 16);
+        spread(i + width * 4, errors, 5 / 16);
+        if (x + 1 < width) spread(i + (width + 1) * 4, errors, 1 / 16);
+      }
+    }
+  }
+  return pixels;
+};
+
+class ByteWriter {
+  private chunks: number[] = [];
+
+  byte(value: number) {
+    this.chunks.push(value & 0xff);
+  }
+
+  short(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  ascii(text: string) {
+    for (const char of text) this.byte(char.charCodeAt(0));
+  }
+
+  toUint8Array() {
+    return Uint8Array.from(this.chunks);
+  }
+}
+
+// Variable-width LZW as specified for GIF, packed LSB first into 255-byte sub-blocks.
+const lzwEncode = (pixels: Uint8Array, writer: ByteWriter) => {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = endCode + 1;
+  let dictionary = new Map<number, number>();
+
+  const emit = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      output.push(buffer & 0xff);
+      buffer >>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = pixels[0];
+  for (let i = 1; i < pixels.length; i++) {
+    const pixel = pixels[i];
+    const key = (prefix << 8) | pixel;
+    const existing = dictionary.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode <= MAX_CODE) {
+      dictionary.set(key, nextCode++);
+      // The decoder widens one code later than the encoder adds the entry.
+      if (nextCode > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      emit(clearCode);
+      dictionary = new Map();
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = pixel;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bufferBits > 0) output.push(buffer & 0xff);
+
+  writer.byte(MIN_CODE_SIZE);
+  for (let i = 0; i < output.length; i += 255) {
+    const block = output.slice(i, i + 255);
+    writer.byte(block.length);
+    writer.bytes(block);
+  }
+  writer.byte(0);
+};
+
+/**
+ * Encodes same-sized frames as a looping animated GIF, showing each for `delayMs`.
+ */
+export const encodeGif = (frames: ImageData[], delayMs: number): Blob => {
+  if (frames.length === 0) {
+    throw new Error('An animation needs at least one frame.');
+  }
+  const { width, height } = frames[0];
+  const writer = new ByteWriter();
+  writer.ascii('GIF89a');
+  writer.short(width);
+  writer.short(height);
+  // Global color table present, 8 bits per channel, 256 entries.
+  writer.byte(0xf7);
+  writer.byte(0);
+  writer.byte(0);
+  writer.bytes(PALETTE);
+
+  // NETSCAPE2.0 application extension: loop forever.
+  writer.bytes([0x21, 0xff, 0x0b]);
+  writer.ascii('NETSCAPE2.0');
+  writer.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+  const delay = Math.max(2, Math.round(delayMs / 10));
+  for (const frame of frames) {
+    // Graphic control extension: "do not dispose", delay in hundredths of a second.
+    writer.bytes([0x21, 0xf9, 0x04, 0x04]);
+    writer.short(delay);
+    writer.bytes([0x00, 0x00]);
+
+    writer.byte(0x2c);
+    writer.short(0);
+    writer.short(0);
+    writer.short(width);
+    writer.short(height);
+    writer.byte(0);
+    lzwEncode(quantize(frame), writer);
+  }
+  writer.byte(0x3b);
+  return new Blob([writer.toUint8Array()], { type: 'image/gif' });
+};
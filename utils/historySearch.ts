@@ -0,0 +1,102 @@
+import type { HistoryEntry } from '../types';
+
+export type HistorySort = 'newest' | 'oldest' | 'rating-desc' | 'rating-asc';
+
+export interface HistoryFilter {
+  // Every word must appear in the prompt, negative prompt, file name, template, model, tags or collections.
+  query: string;
+  // 0 shows everything, -1 only unrated images, 1–5 images rated at least that.
+  minRating: number;
+  favoritesOnly: boolean;
+  tag: string | null;
+  collection: string | null;
+  aspectRatio: string | null;
+  // Inclusive bounds as yyyy-mm-dd (from date inputs, in local time); empty for no bound.
+  from: string;
+  to: string;
+  sort: HistorySort;
+}
+
+export const DEFAULT_HISTORY_FILTER: HistoryFilter = {
+  query: '',
+  minRating: 0,
+  favoritesOnly: false,
+  tag: null,
+  collection: null,
+  aspectRatio: null,
+  from: '',
+  to: '',
+  sort: 'newest',
+};
+
+export const isDefaultHistoryFilter = (filter: HistoryFilter) =>
+  (Object.keys(DEFAULT_HISTORY_FILTER) as (keyof HistoryFilter)[])
+    .every(key => key === 'sort' || filter[key] === DEFAULT_HISTORY_FILTER[key]);
+
+/**
+ * Splits comma-separated input into labels: trimmed, inner whitespace collapsed, without duplicates
+ * (compared case-insensitively, keeping the first spelling).
+ */
+export const parseLabels = (text: string): string[] => {
+  const labels: string[] = [];
+  for (const raw of text.split(',')) {
+    const label = raw.trim().replace(/\s+/g, ' ');
+    if (label && !labels.some(existing => existing.toLowerCase() === label.toLowerCase())) {
+      labels.push(label);
+    }
+  }
+  return labels;
+};
+
+// Adds labels to a list, skipping ones it already has in any capitalization.
+export const mergeLabels = (current: string[], added: string[]): string[] => parseLabels([...current, ...added].join(','));
+
+// Every distinct value of a label field across history, sorted for menus.
+export const collectLabels = (history: HistoryEntry[], field: 'tags' | 'collections'): string[] =>
+  mergeLabels([], history.flatMap(entry => entry[field])).sort((a, b) => a.localeCompare(b));
+
+// Aspect ratios that occur in history, including custom ones, in first-seen order.
+export const collectAspectRatios = (history: HistoryEntry[]): string[] =>
+  [...new Set(history.flatMap(entry => entry.request ? [entry.request.aspectRatio] : []))];
+
+const searchText = (entry: HistoryEntry): string => [
+  entry.fileName,
+  entry.request?.prompt,
+  entry.request?.negativePrompt,
+  entry.request?.template?.name,
+  entry.request?.model,
+  ...entry.tags,
+  ...entry.collections,
+].filter(Boolean).join('\n').toLowerCase();
+
+const hasLabel = (labels: string[], label: string) => labels.some(item => item.toLowerCase() === label.toLowerCase());
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+export const filterHistory = (history: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] => {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const from = filter.from ? startOfDay(filter.from) : -Infinity;
+  // The end date is inclusive, so the bound is the start of the following day.
+  const to = filter.to ? startOfDay(filter.to) + 24 * 60 * 60 * 1000 : Infinity;
+
+  const filtered = history.filter(entry =>
+    (filter.minRating === 0 || (filter.minRating < 0 ? entry.rating === 0 : entry.rating >= filter.minRating))
+    && (!filter.favoritesOnly || entry.favorite)
+    && (filter.tag === null || hasLabel(entry.tags, filter.tag))
+    && (filter.collection === null || hasLabel(entry.collections, filter.collection))
+    && (filter.aspectRatio === null || entry.request?.aspectRatio === filter.aspectRatio)
+    && entry.createdAt >= from && entry.createdAt < to
+    && (terms.length === 0 || (text => terms.every(term => text.includes(term)))(searchText(entry)))
+  );
+  const byDate = (a: HistoryEntry, b: HistoryEntry) => b.createdAt - a.createdAt;
+  switch (filter.sort) {
+    case 'oldest':
+      return filtered.sort((a, b) => byDate(b, a));
+    case 'rating-desc':
+      return filtered.sort((a, b) => b.rating - a.rating || byDate(a, b));
+    case 'rating-asc':
+      return filtered.sort((a, b) => a.rating - b.rating || byDate(a, b));
+    default:
+      return filtered.sort(byDate);
+  }
+};
@@ -0,0 +1,166 @@
+export type Rotation = 0 | 90 | 180 | 270;
+export type OverlayPosition = 'top-left' | 'top-right' | 'center' | 'bottom-left' | 'bottom-right';
+
+export interface TextOverlay {
+  text: string;
+  position: OverlayPosition;
+  // Font size as a fraction of the output image's shorter edge.
+  size: number;
+  color: string;
+  opacity: number;
+}
+
+/**
+ * Non-destructive adjustments; the source image is never modified and every render starts from it.
+ * Crop insets are fractions of the (rotated) source size removed from each side.
+ */
+export interface ImageAdjustments {
+  crop: { top: number; right: number; bottom: number; left: number };
+  rotation: Rotation;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  // Percentages, 100 means unchanged.
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  // 0 (off) to 100.
+  sharpen: number;
+  overlay: TextOverlay | null;
+}
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  crop: { top: 0, right: 0, bottom: 0, left: 0 },
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  sharpen: 0,
+  overlay: null,
+};
+
+// Keeps at least this fraction of each dimension so a crop can never produce an empty image.
+const MIN_CROP_REMAINDER = 0.05;
+
+const OVERLAY_MARGIN = 0.03;
+
+export const clampCrop = (crop: ImageAdjustments['crop']): ImageAdjustments['crop'] => {
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  const maxInset = 1 - MIN_CROP_REMAINDER;
+  const left = Math.min(clamp(crop.left), maxInset);
+  const top = Math.min(clamp(crop.top), maxInset);
+  return {
+    left,
+    top,
+    right: Math.min(clamp(crop.right), maxInset - left),
+    bottom: Math.min(clamp(crop.bottom), maxInset - top),
+  };
+};
+
+// Short summary used as the "prompt" of a history entry created by the editor.
+export const describeAdjustments = (adjustments: ImageAdjustments): string => {
+  const parts: string[] = [];
+  const { crop } = adjustments;
+  if (crop.top || crop.right || crop.bottom || crop.left) parts.push('cropped');
+  if (adjustments.rotation) parts.push(`rotated ${adjustments.rotation}°`);
+  if (adjustments.flipHorizontal) parts.push('flipped horizontally');
+  if (adjustments.flipVertical) parts.push('flipped vertically');
+  if (adjustments.brightness !== 100) parts.push(`brightness ${adjustments.brightness}%`);
+  if (adjustments.contrast !== 100) parts.push(`contrast ${adjustments.contrast}%`);
+  if (adjustments.saturation !== 100) parts.push(`saturation ${adjustments.saturation}%`);
+  if (adjustments.sharpen) parts.push(`sharpen ${adjustments.sharpen}`);
+  if (adjustments.overlay?.text.trim()) parts.push(`text "${adjustments.overlay.text.trim()}"`);
+  return parts.length > 0 ? `Adjusted: ${parts.join(', ')}` : 'No adjustments';
+};
+
+export const hasAdjustments = (adjustments: ImageAdjustments): boolean =>
+  describeAdjustments(adjustments) !== describeAdjustments(DEFAULT_ADJUSTMENTS);
+
+// Unsharp-style 3×3 kernel whose center weight grows with `amount` (0–100).
+const applySharpen = (context: CanvasRenderingContext2D, width: number, height: number, amount: number) => {
+  const strength = amount / 100;
+  const source = context.getImageData(0, 0, width, height);
+  const output = context.createImageData(width, height);
+  const src = source.data;
+  const dst = output.data;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const up = (Math.max(0, y - 1) * width + x) * 4;
+      const down = (Math.min(height - 1, y + 1) * width + x) * 4;
+      const left = (y * width + Math.max(0, x - 1)) * 4;
+      const right = (y * width + Math.min(width - 1, x + 1)) * 4;
+      for (let c = 0; c < 3; c++) {
+        const edge = 4 * src[i + c] - src[up + c] - src[down + c] - src[left + c] - src[right + c];
+        dst[i + c] = src[i + c] + strength * edge;
+      }
+      dst[i + 3] = src[i + 3];
+    }
+  }
+  context.putImageData(output, 0, 0);
+};
+
+const drawOverlay = (context: CanvasRenderingContext2D, width: number, height: number, overlay: TextOverlay) => {
+  const text = overlay.text.trim();
+  if (!text) return;
+  const fontSize = Math.max(8, Math.round(Math.min(width, height) * overlay.size));
+  const margin = Math.round(Math.min(width, height) * OVERLAY_MARGIN);
+  context.save();
+  context.globalAlpha = overlay.opacity;
+  context.fillStyle = overlay.color;
+  context.font = `bold ${fontSize}px sans-serif`;
+  context.shadowColor = 'rgba(0, 0, 0, 0.5)';
+  context.shadowBlur = fontSize / 8;
+  const [vertical, horizontal] = overlay.position === 'center' ? ['middle', 'center'] : overlay.position.split('-');
+  context.textAlign = horizontal === 'left' ? 'left' : horizontal === 'right' ? 'right' : 'center';
+  context.textBaseline = vertical === 'top' ? 'top' : vertical === 'bottom' ? 'bottom' : 'middle';
+  const x = horizontal === 'left' ? margin : horizontal === 'right' ? width - margin : width / 2;
+  const y = vertical === 'top' ? margin : vertical === 'bottom' ? height - margin : height / 2;
+  context.fillText(text, x, y);
+  context.restore();
+};
+
+/**
+ * Renders `source` with every adjustment applied, in the order rotate/flip → crop → color → sharpen
+ * → overlay, at full resolution.
+ */
+export const renderAdjustedImage = (source: CanvasImageSource & { width: number; height: number }, adjustments: ImageAdjustments): HTMLCanvasElement => {
+  const quarterTurn = adjustments.rotation === 90 || adjustments.rotation === 270;
+  const rotatedWidth = quarterTurn ? source.height : source.width;
+  const rotatedHeight = quarterTurn ? source.width : source.height;
+
+  const crop = clampCrop(adjustments.crop);
+  const cropX = Math.round(crop.left * rotatedWidth);
+  const cropY = Math.round(crop.top * rotatedHeight);
+  const width = Math.max(1, Math.round(rotatedWidth * (1 - crop.left - crop.right)));
+  const height = Math.max(1, Math.round(rotatedHeight * (1 - crop.top - crop.bottom)));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: adjustments.sharpen > 0 });
+  if (!context) {
+    throw new Error('Failed to create a canvas context for adjustments.');
+  }
+
+  context.filter = `brightness(${adjustments.brightness}%) contrast(${adjustments.contrast}%) saturate(${adjustments.saturation}%)`;
+  context.save();
+  // Work in the rotated frame, shifted so the crop origin lands at the canvas origin.
+  context.translate(-cropX, -cropY);
+  context.translate(rotatedWidth / 2, rotatedHeight / 2);
+  // Flipping before rotating in call order flips along the axes the user sees.
+  context.scale(adjustments.flipHorizontal ? -1 : 1, adjustments.flipVertical ? -1 : 1);
+  context.rotate((adjustments.rotation * Math.PI) / 180);
+  context.drawImage(source, -source.width / 2, -source.height / 2);
+  context.restore();
+  context.filter = 'none';
+
+  if (adjustments.sharpen > 0) {
+    applySharpen(context, width, height, adjustments.sharpen);
+  }
+  if (adjustments.overlay) {
+    drawOverlay(context, width, height, adjustments.overlay);
+  }
+  return canvas;
+};
@@ -0,0 +1,296 @@
+import type { GenerationRequest } from '../types';
+import { crc32 } from './crc32';
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp' | 'image/avif';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // 0–1; ignored for PNG.
+  quality: number;
+  // 1 keeps the original size; larger values upscale with high-quality smoothing.
+  scale: number;
+  fileNameTemplate: string;
+  embedMetadata: boolean;
+}
+
+export interface ExportContext {
+  fileName: string;
+  request: GenerationRequest | null;
+  rating: number;
+  date: number;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  fileName: string;
+  // Set when the browser could not encode the requested format and another one was used.
+  fallbackFormat: string | null;
+  metadataEmbedded: boolean;
+}
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string }[] = [
+  { format: 'image/png', label: 'PNG', extension: 'png' },
+  { format: 'image/jpeg', label: 'JPEG', extension: 'jpg' },
+  { format: 'image/webp', label: 'WebP', extension: 'webp' },
+  { format: 'image/avif', label: 'AVIF', extension: 'avif' },
+];
+
+export const FILE_NAME_TOKENS = ['{name}', '{prompt}', '{date}', '{time}', '{rating}', '{mode}', '{model}'];
+export const DEFAULT_FILE_NAME_TEMPLATE = '{prompt}-{date}';
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'image/png',
+  quality: 0.92,
+  scale: 1,
+  fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE,
+  embedMetadata: true,
+};
+
+const EXPORT_OPTIONS_KEY = 'exportOptions';
+const SOFTWARE_NAME = 'Smart Imaginer';
+const MAX_SLUG_LENGTH = 40;
+
+const slugify = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, MAX_SLUG_LENGTH).replace(/-+$/, '');
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Expands a file name template. Unknown tokens are left as typed; characters that are not allowed
+ * in file names are replaced, and the extension for `format` is appended.
+ */
+export const formatExportFileName = (template: string, context: ExportContext, format: ExportFormat): string => {
+  const date = new Date(context.date);
+  const baseName = context.fileName.replace(/\.\w+$/, '');
+  const values: Record<string, string> = {
+    '{name}': slugify(baseName) || 'image',
+    '{prompt}': slugify(context.request?.prompt ?? '') || 'image',
+    '{date}': `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    '{time}': `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+    '{rating}': context.rating > 0 ? `${context.rating}star` : 'unrated',
+    '{mode}': context.request?.mode ?? 'upload',
+    '{model}': slugify(context.request?.model ?? '') || 'unknown',
+  };
+  const expanded = FILE_NAME_TOKENS.reduce((name, token) => name.split(token).join(values[token]), template);
+  const safe = expanded.replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^[-.]+|-+$/g, '') || 'image';
+  const extension = EXPORT_FORMATS.find(item => item.format === format)?.extension ?? 'png';
+  return `${safe}.${extension}`;
+};
+
+// Key/value pairs written into the file; `parameters` is the full request as JSON so it can be re-imported.
+export const buildExportMetadata = (context: ExportContext): Record<string, string> => {
+  const metadata: Record<string, string> = {
+    Software: SOFTWARE_NAME,
+    'Creation Time': new Date(context.request?.startedAt ?? context.date).toISOString(),
+  };
+  if (context.request) {
+    metadata.Description = context.request.prompt;
+    metadata.parameters = JSON.stringify({ ...context.request, rating: context.rating });
+  }
+  return metadata;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const buildXmpPacket = (metadata: Record<string, string>): string => `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+      xmlns:dc="http://purl.org/dc/elements/1.1/"
+      xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+      xmlns:smartimaginer="https://github.com/kosuru71/Smart-Imaginer/ns/1.0/"
+      xmp:CreatorTool="${escapeXml(metadata.Software)}"
+      xmp:CreateDate="${escapeXml(metadata['Creation Time'])}"${metadata.parameters ? `
+      smartimaginer:parameters="${escapeXml(metadata.parameters)}"` : ''}>${metadata.Description ? `
+      <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.Description)}</rdf:li></rdf:Alt></dc:description>` : ''}
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const typeAndData = concatBytes([new TextEncoder().encode(type), data]);
+  const chunk = new Uint8Array(typeAndData.length + 8);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(typeAndData, 4);
+  view.setUint32(typeAndData.length + 4, crc32(typeAndData));
+  return chunk;
+};
+
+const isLatin1 = (text: string) => /^[\x00-\xff]*$/.test(text);
+
+const pngInternationalTextChunk = (keyword: string, text: string): Uint8Array =>
+  pngChunk('iTXt', concatBytes([
+    new TextEncoder().encode(keyword),
+    // Null separator, compression flag, compression method, empty language tag and translated keyword.
+    new Uint8Array([0, 0, 0, 0, 0]),
+    new TextEncoder().encode(text),
+  ]));
+
+// tEXt only holds Latin-1, so text outside it (e.g. an emoji in the prompt) goes into a UTF-8 iTXt chunk.
+const pngTextChunk = (keyword: string, text: string): Uint8Array =>
+  isLatin1(text)
+    ? pngChunk('tEXt', concatBytes([
+      new TextEncoder().encode(keyword),
+      new Uint8Array([0]),
+      Uint8Array.from(text, char => char.charCodeAt(0)),
+    ]))
+    : pngInternationalTextChunk(keyword, text);
+
+// Inserts text chunks (plus the XMP packet under its standard iTXt keyword) right after IHDR.
+export const embedPngMetadata = (png: Uint8Array, metadata: Record<string, string>): Uint8Array => {
+  const ihdrEnd = 8 + 8 + new DataView(png.buffer, png.byteOffset).getUint32(8) + 4;
+  const chunks = [
+    ...Object.entries(metadata).map(([key, value]) => pngTextChunk(key, value)),
+    pngInternationalTextChunk('XML:com.adobe.xmp', buildXmpPacket(metadata)),
+  ];
+  return concatBytes([png.subarray(0, ihdrEnd), ...chunks, png.subarray(ihdrEnd)]);
+};
+
+// Adds an APP1 XMP segment after SOI (and after APP0/JFIF when present, as some readers expect).
+export const embedJpegMetadata = (jpeg: Uint8Array, metadata: Record<string, string>): Uint8Array => {
+  const payload = concatBytes([
+    new TextEncoder().encode('http://ns.adobe.com/xap/1.0/\0'),
+    new TextEncoder().encode(buildXmpPacket(metadata)),
+  ]);
+  if (payload.length + 2 > 0xffff) return jpeg;
+  const segment = new Uint8Array(payload.length + 4);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, payload.length + 2);
+  segment.set(payload, 4);
+
+  const jpegView = new DataView(jpeg.buffer, jpeg.byteOffset);
+  const insertAt = jpegView.getUint16(2) === 0xffe0 ? 4 + jpegView.getUint16(4) : 2;
+  return concatBytes([jpeg.subarray(0, insertAt), segment, jpeg.subarray(insertAt)]);
+};
+
+export const riffChunk = (fourCc: string, data: Uint8Array): Uint8Array => {
+  const padded = data.length % 2 === 1;
+  const chunk = new Uint8Array(8 + data.length + (padded ? 1 : 0));
+  chunk.set(new TextEncoder().encode(fourCc), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+/**
+ * Adds an XMP chunk to a WebP file. Simple (VP8/VP8L-only) files are upgraded to the extended format,
+ * whose VP8X header carries the canvas size and the "has XMP" flag.
+ */
+export const embedWebpMetadata = (webp: Uint8Array, metadata: Record<string, string>, width: number, height: number): Uint8Array => {
+  const fourCc = new TextDecoder().decode(webp.subarray(12, 16));
+  const xmp = riffChunk('XMP ', new TextEncoder().encode(buildXmpPacket(metadata)));
+  let body: Uint8Array;
+  if (fourCc === 'VP8X') {
+    body = concatBytes([webp.subarray(12), xmp]);
+    // Flags byte of the existing VP8X chunk: set the XMP bit.
+    body[8] |= 0x04;
+  } else {
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = 0x04;
+    const view = new DataView(vp8x.buffer);
+    view.setUint16(4, (width - 1) & 0xffff, true);
+    view.setUint8(6, ((width - 1) >> 16) & 0xff);
+    view.setUint16(7, (height - 1) & 0xffff, true);
+    view.setUint8(9, ((height - 1) >> 16) & 0xff);
+    body = concatBytes([riffChunk('VP8X', vp8x), webp.subarray(12), xmp]);
+  }
+  const header = new Uint8Array(12);
+  header.set(new TextEncoder().encode('RIFF'), 0);
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  header.set(new TextEncoder().encode('WEBP'), 8);
+  return concatBytes([header, body]);
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: ExportFormat, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (result) => (result ? resolve(result) : reject(new Error('Failed to encode the exported image.'))),
+      format,
+      quality
+    );
+  });
+
+/**
+ * Re-encodes an image with the chosen format, quality and scale, and embeds the generation settings
+ * (PNG iTXt + XMP, JPEG and WebP XMP). AVIF is written without metadata. Browsers that cannot encode
+ * the requested format fall back to PNG, which is reported in the result.
+ */
+export const exportImage = async (source: Blob, options: ExportOptions, context: ExportContext): Promise<ExportResult> => {
+  const bitmap = await createImageBitmap(source);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * options.scale);
+  canvas.height = Math.round(bitmap.height * options.scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Failed to create a canvas context for the export.');
+  }
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  if (options.format === 'image/jpeg') {
+    // JPEG has no alpha channel; avoid transparent pixels turning black.
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const encoded = await canvasToBlob(canvas, options.format, options.quality);
+  const format = (encoded.type || options.format) as ExportFormat;
+  const fallbackFormat = format !== options.format ? format : null;
+
+  let blob = encoded;
+  let metadataEmbedded = false;
+  if (options.embedMetadata && format !== 'image/avif') {
+    const bytes = new Uint8Array(await encoded.arrayBuffer());
+    const metadata = buildExportMetadata(context);
+    const embedded = format === 'image/png'
+      ? embedPngMetadata(bytes, metadata)
+      : format === 'image/jpeg'
+        ? embedJpegMetadata(bytes, metadata)
+        : embedWebpMetadata(bytes, metadata, canvas.width, canvas.height);
+    blob = new Blob([embedded], { type: format });
+    metadataEmbedded = embedded !== bytes;
+  }
+
+  return {
+    blob,
+    fileName: formatExportFileName(options.fileNameTemplate, context, format),
+    fallbackFormat,
+    metadataEmbedded,
+  };
+};
+
+export const loadExportOptions = (): ExportOptions => {
+  try {
+    const data = localStorage.getItem(EXPORT_OPTIONS_KEY);
+    if (data) {
+      return { ...DEFAULT_EXPORT_OPTIONS, ...JSON.parse(data) };
+    }
+  } catch (e) {
+    console.error("Failed to parse export options", e);
+  }
+  return DEFAULT_EXPORT_OPTIONS;
+};
+
+export const saveExportOptions = (options: ExportOptions) => {
+  try {
+    localStorage.setItem(EXPORT_OPTIONS_KEY, JSON.stringify(options));
+  } catch (e) {
+    console.error("Failed to save export options in localStorage", e);
+  }
+};
@@ -0,0 +1,81 @@
+import { formatByteSize } from './imagePreprocess';
+
+// Larger files are almost certainly not meant as input and would take long to decode.
+export const MAX_INPUT_BYTES = 30 * 1024 * 1024;
+
+export interface IncomingImage {
+  blob: Blob;
+  name: string;
+}
+
+// Returns why `blob` cannot be used as an input image, or null when it can.
+export const validateInputImage = (blob: Blob): string | null => {
+  if (!blob.type.startsWith('image/')) return 'Please select an image file.';
+  if (blob.size === 0) return 'The image file is empty.';
+  if (blob.size > MAX_INPUT_BYTES) return `Images larger than ${formatByteSize(MAX_INPUT_BYTES)} are not supported.`;
+  return null;
+};
+
+/**
+ * The file from a paste or drop, preferring an image when there are several. Non-image files are still
+ * returned so they get a validation error instead of being silently ignored. Pasted screenshots often
+ * have a generic or empty name, so `fallbackName` is used for those.
+ */
+export const fileFromDataTransfer = (data: DataTransfer | null, fallbackName: string): IncomingImage | null => {
+  const files = Array.from(data?.files ?? []);
+  const file = files.find(item => item.type.startsWith('image/')) ?? files[0];
+  if (!file) return null;
+  return { blob: file, name: file.name && file.name !== 'image.png' ? file.name : fallbackName };
+};
+
+// A link dragged from another page or tab, e.g. an image dragged out of a browser window.
+export const urlFromDataTransfer = (data: DataTransfer | null): string | null => {
+  const uris = data?.getData('text/uri-list') ?? '';
+  return uris.split(/\r?\n/).find(line => line && !line.startsWith('#')) ?? null;
+};
+
+export const hasDroppableImage = (data: DataTransfer | null) =>
+  !!data && (data.types.includes('Files') || data.types.includes('text/uri-list'));
+
+const fileNameFromUrl = (url: URL): string => {
+  if (url.protocol === 'data:') return 'image-from-url';
+  const segment = url.pathname.split('/').filter(Boolean).pop();
+  try {
+    return segment ? decodeURIComponent(segment) : url.hostname;
+  } catch {
+    return segment ?? url.hostname;
+  }
+};
+
+/**
+ * Downloads an image from a URL typed or dropped by the user. Only http(s) and data URLs are accepted.
+ * The download happens in the browser, so it fails for sites that do not allow cross-origin requests.
+ */
+export const fetchImageFromUrl = async (text: string, signal?: AbortSignal): Promise<IncomingImage> => {
+  let url: URL;
+  try {
+    url = new URL(text.trim());
+  } catch {
+    throw new Error('Please enter a full image address, starting with https://.');
+  }
+  if (!['http:', 'https:', 'data:'].includes(url.protocol)) {
+    throw new Error('Only http, https and data image addresses are supported.');
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    console.error("Failed to fetch image URL", e);
+    throw new Error('The image could not be downloaded. The site may not allow other pages to load its images; save it and upload the file instead.');
+  }
+  if (!response.ok) {
+    throw new Error(`The image could not be downloaded (HTTP ${response.status}).`);
+  }
+  const length = Number(response.headers.get('Content-Length'));
+  if (length > MAX_INPUT_BYTES) {
+    throw new Error(`Images larger than ${formatByteSize(MAX_INPUT_BYTES)} are not supported.`);
+  }
+  return { blob: await response.blob(), name: fileNameFromUrl(url) };
+};
@@ -0,0 +1,206 @@
+import type { ImageFile } from '../types';
+import { fileToBase64 } from './fileUtils';
+
+const MAX_EDGE_KEY = 'preprocessMaxEdge';
+
+export const MAX_EDGE_OPTIONS = [1024, 1536, 2048, 3072];
+export const DEFAULT_MAX_EDGE = 2048;
+// Request limits of the app server (see server/geminiApi.ts). Gemini rejects inline requests above 20 MB,
+// so the body limit stays just under it.
+export const MAX_BODY_BYTES = 19 * 1024 * 1024;
+export const MAX_INPUT_IMAGES = 3;
+// Room in the body for everything but the images: prompts, conversation text and the JSON around them.
+const NON_IMAGE_BODY_BYTES = 256 * 1024;
+// Largest image the server accepts. Images travel as base64 (4 bytes per 3), and an edit may carry
+// MAX_INPUT_IMAGES images plus a mask, so that many images of this size still fit in one request body.
+export const MAX_IMAGE_BYTES = Math.floor((MAX_BODY_BYTES - NON_IMAGE_BODY_BYTES) * 3 / 4 / (MAX_INPUT_IMAGES + 1));
+
+// Formats every provider accepts as input; anything else is re-encoded.
+const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const FORMATS_WITH_ALPHA = ['image/png', 'image/webp', 'image/gif', 'image/avif'];
+const JPEG_QUALITY = 0.9;
+
+export interface PreprocessedImage extends ImageFile {
+  name: string;
+  width: number;
+  height: number;
+  byteSize: number;
+  original: { width: number; height: number; byteSize: number; mimeType: string };
+  // Human-readable list of what was done, e.g. "rotated", "location data removed".
+  changes: string[];
+}
+
+// Preprocessing details kept alongside the processed image for display.
+export type PreprocessingInfo = Omit<PreprocessedImage, keyof ImageFile | 'name'>;
+
+interface ExifInfo {
+  // EXIF orientation tag (1 means upright).
+  orientation: number;
+  hasGps: boolean;
+}
+
+/**
+ * Reads the orientation and GPS presence from a JPEG's EXIF block. Returns defaults for other
+ * formats or when the file has no (readable) EXIF data.
+ */
+export const readExifInfo = (buffer: ArrayBuffer): ExifInfo => {
+  const info: ExifInfo = { orientation: 1, hasGps: false };
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return info;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 segment starting with "Exif\0\0".
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return info;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      if (ifd + 2 > view.byteLength) return info;
+      const entries = view.getUint16(ifd, littleEndian);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        const tag = view.getUint16(entry, littleEndian);
+        if (tag === 0x0112) info.orientation = view.getUint16(entry + 8, littleEndian);
+        if (tag === 0x8825) info.hasGps = true;
+      }
+      return info;
+    }
+    // Stop at the start of the image data; metadata segments all come before it.
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return info;
+    offset += 2 + length;
+  }
+  return info;
+};
+
+const hasTransparency = (context: CanvasRenderingContext2D, width: number, height: number): boolean => {
+  const { data } = context.getImageData(0, 0, width, height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (result) => (result ? resolve(result) : reject(new Error('Failed to encode the processed image.'))),
+      mimeType,
+      JPEG_QUALITY
+    );
+  });
+
+const replaceExtension = (name: string, mimeType: string): string => {
+  const extension = mimeType === 'image/png' ? 'png' : mimeType === 'image/webp' ? 'webp' : 'jpg';
+  const base = name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name;
+  return `${base}.${extension}`;
+};
+
+const shrinkCanvas = (source: HTMLCanvasElement, factor: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.floor(source.width * factor));
+  canvas.height = Math.max(1, Math.floor(source.height * factor));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to create a canvas context for preprocessing.');
+  }
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/**
+ * Prepares an uploaded image for the API: applies the EXIF orientation, downsizes it so its longest
+ * edge is at most `maxEdge`, flattens transparency onto white and re-encodes it. Re-encoding through a
+ * canvas drops all metadata, including GPS location. Images still above `MAX_IMAGE_BYTES` are turned
+ * into JPEG and, if that is not enough, downsized further. Throws when the browser cannot decode the file.
+ */
+export const preprocessImage = async (file: Blob, name: string, maxEdge: number): Promise<PreprocessedImage> => {
+  const exif = file.type === 'image/jpeg' ? readExifInfo(await file.arrayBuffer()) : { orientation: 1, hasGps: false };
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (e) {
+    console.error("Failed to decode image", e);
+    throw new Error(`This browser cannot read ${file.type || 'this file type'} images. Please convert it to JPEG or PNG first.`);
+  }
+
+  const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    bitmap.close();
+    throw new Error('Failed to create a canvas context for preprocessing.');
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  const original = { width: bitmap.width, height: bitmap.height, byteSize: file.size, mimeType: file.type };
+  bitmap.close();
+
+  const changes: string[] = [];
+  if (exif.orientation > 1) changes.push('rotated upright');
+  if (scale < 1) changes.push(`resized to fit ${maxEdge}px`);
+
+  let mimeType = SUPPORTED_MIME_TYPES.includes(file.type) ? file.type : 'image/jpeg';
+  if (FORMATS_WITH_ALPHA.includes(file.type) && hasTransparency(context, canvas.width, canvas.height)) {
+    // Providers render transparent pixels unpredictably (often black), so they are filled with white.
+    context.globalCompositeOperation = 'destination-over';
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    changes.push('transparency filled with white');
+  }
+
+  let blob = await canvasToBlob(canvas, mimeType);
+  // Browsers that cannot encode WebP silently fall back to PNG.
+  mimeType = blob.type || mimeType;
+  if (blob.size > MAX_IMAGE_BYTES && mimeType !== 'image/jpeg') {
+    // A lossless PNG of a photo is often several times larger than a JPEG; transparency is already gone.
+    blob = await canvasToBlob(canvas, 'image/jpeg');
+    mimeType = blob.type || 'image/jpeg';
+  }
+  let output = canvas;
+  while (blob.size > MAX_IMAGE_BYTES && output.width > 1 && output.height > 1) {
+    // The encoded size grows with the pixel count, so both edges shrink by the square root of the excess.
+    output = shrinkCanvas(output, Math.sqrt(MAX_IMAGE_BYTES / blob.size) * 0.9);
+    blob = await canvasToBlob(output, mimeType);
+  }
+  if (output !== canvas) changes.push(`resized to fit ${formatByteSize(MAX_IMAGE_BYTES)}`);
+  if (mimeType !== file.type) changes.push(`converted from ${file.type || 'unknown format'}`);
+  changes.push(exif.hasGps ? 'location data removed' : 'metadata removed');
+
+  return {
+    base64: await fileToBase64(blob),
+    mimeType,
+    name: replaceExtension(name, mimeType),
+    width: output.width,
+    height: output.height,
+    byteSize: blob.size,
+    original,
+    changes,
+  };
+};
+
+export const formatByteSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export const getPreprocessMaxEdge = (): number => {
+  try {
+    const stored = Number(localStorage.getItem(MAX_EDGE_KEY));
+    return MAX_EDGE_OPTIONS.includes(stored) ? stored : DEFAULT_MAX_EDGE;
+  } catch (e) {
+    console.error("Failed to read preprocessing max edge", e);
+    return DEFAULT_MAX_EDGE;
+  }
+};
+
+export const setPreprocessMaxEdge = (maxEdge: number) => {
+  try {
+    localStorage.setItem(MAX_EDGE_KEY, String(maxEdge));
+  } catch (e) {
+    console.error("Failed to save preprocessing max edge in localStorage", e);
+  }
+};
@@ -0,0 +1,35 @@
+import type { GenerationJob } from '../types';
+
+export const DEFAULT_QUEUE_CONCURRENCY = 2;
+export const QUEUE_CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+export const isJobFinished = (job: GenerationJob) => job.status === 'done' || job.status === 'error' || job.status === 'cancelled';
+
+/**
+ * The queued jobs to start now, in queue order: as many as there are free slots under `concurrency`,
+ * and no more than the remaining quota (null when unknown). Each started job still reserves its own
+ * generation and goes back to the queue when refused, so this only avoids pointless reservations.
+ */
+export const pickJobsToStart = (jobs: GenerationJob[], concurrency: number, remainingQuota: number | null): GenerationJob[] => {
+  const running = jobs.filter(job => job.status === 'running').length;
+  const slots = Math.max(0, concurrency - running);
+  const budget = remainingQuota === null ? slots : Math.min(slots, Math.max(0, remainingQuota));
+  return jobs.filter(job => job.status === 'queued').slice(0, budget);
+};
+
+/**
+ * Moves a queued job past its nearest queued neighbour in the given direction (-1 earlier, 1 later).
+ * Running and finished jobs keep their place, since their order no longer matters.
+ */
+export const moveQueuedJob = (jobs: GenerationJob[], id: string, offset: -1 | 1): GenerationJob[] => {
+  const from = jobs.findIndex(job => job.id === id);
+  if (from === -1 || jobs[from].status !== 'queued') return jobs;
+  let to = from + offset;
+  while (to >= 0 && to < jobs.length && jobs[to].status !== 'queued') {
+    to += offset;
+  }
+  if (to < 0 || to >= jobs.length) return jobs;
+  const next = [...jobs];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+};
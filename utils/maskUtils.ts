@@ -0,0 +1,81 @@
+export type MaskTool = 'brush' | 'eraser' | 'lasso';
+
+// Points and size are normalized to the image (0..1 of width/height, size relative to width)
+// so strokes render identically on the on-screen overlay and the full-resolution mask.
+export interface MaskStroke {
+  tool: MaskTool;
+  size: number;
+  points: [number, number][];
+}
+
+/**
+ * Paints strokes onto a transparent canvas in `color`. Brush and lasso add to the mask,
+ * the eraser removes from it.
+ */
+export const drawMaskStrokes = (
+  context: CanvasRenderingContext2D,
+  strokes: MaskStroke[],
+  width: number,
+  height: number,
+  color: string
+) => {
+  context.save();
+  context.clearRect(0, 0, width, height);
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+
+  for (const stroke of strokes) {
+    if (stroke.points.length === 0) continue;
+    context.globalCompositeOperation = stroke.tool === 'eraser' ? 'destination-out' : 'source-over';
+    context.strokeStyle = color;
+    context.fillStyle = color;
+    context.beginPath();
+    const [firstX, firstY] = stroke.points[0];
+    context.moveTo(firstX * width, firstY * height);
+    for (const [x, y] of stroke.points.slice(1)) {
+      context.lineTo(x * width, y * height);
+    }
+
+    if (stroke.tool === 'lasso') {
+      context.closePath();
+      context.fill();
+    } else if (stroke.points.length === 1) {
+      context.arc(firstX * width, firstY * height, (stroke.size * width) / 2, 0, Math.PI * 2);
+      context.fill();
+    } else {
+      context.lineWidth = stroke.size * width;
+      context.stroke();
+    }
+  }
+  context.restore();
+};
+
+/**
+ * Renders the final mask at the image's resolution: white where the image should change, black where it
+ * must be kept. `feather` softens the edge by that many pixels. Returns raw base64 PNG data.
+ */
+export const renderMask = (strokes: MaskStroke[], width: number, height: number, feather: number): string => {
+  const strokeCanvas = document.createElement('canvas');
+  strokeCanvas.width = width;
+  strokeCanvas.height = height;
+  const strokeContext = strokeCanvas.getContext('2d');
+
+  const maskCanvas = document.createElement('canvas');
+  maskCanvas.width = width;
+  maskCanvas.height = height;
+  const maskContext = maskCanvas.getContext('2d');
+
+  if (!strokeContext || !maskContext) {
+    throw new Error('Failed to create a canvas context for the mask.');
+  }
+
+  drawMaskStrokes(strokeContext, strokes, width, height, '#ffffff');
+  maskContext.fillStyle = '#000000';
+  maskContext.fillRect(0, 0, width, height);
+  if (feather > 0) {
+    maskContext.filter = `blur(${feather}px)`;
+  }
+  maskContext.drawImage(strokeCanvas, 0, 0);
+
+  return maskCanvas.toDataURL('image/png').split(',')[1];
+};
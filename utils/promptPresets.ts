@@ -0,0 +1,165 @@
+import type { PresetKind, PromptPreset } from '../types';
+
+const PRESETS_KEY = 'promptPresets';
+const ACTIVE_NEGATIVE_KEY = 'activeNegativePreset';
+
+export const EXTEND_PRESET_ID = 'builtin-extend';
+export const DEFAULT_NEGATIVE_PRESET_ID = 'builtin-negative-quality';
+
+export const BUILT_IN_PRESETS: PromptPreset[] = [
+  {
+    id: EXTEND_PRESET_ID,
+    kind: 'template',
+    name: 'Extend scene',
+    text: "Generate the next natural progression of the scene. Ensure No existing objects overlap or blur, don't duplicate same characters. Also don't add new objects without the real need as it will change the scene dynamics. dont change the theme, have some variation with the angle movement by some degrees or zoomin naturally. Look at the probable action the characters can do and change the next scene accordingly",
+    builtIn: true,
+  },
+  {
+    id: 'builtin-product-shot',
+    kind: 'template',
+    name: 'Product shot',
+    text: 'A professional studio photograph of {{product}} on a {{surface}} background, soft box lighting, sharp focus',
+    builtIn: true,
+  },
+  {
+    id: 'builtin-style-watercolor',
+    kind: 'style',
+    name: 'Watercolor',
+    text: 'painted in loose watercolor with soft bleeding edges and visible paper texture',
+    negativePrompt: 'photorealistic, 3d render',
+    builtIn: true,
+  },
+  {
+    id: 'builtin-style-cinematic',
+    kind: 'style',
+    name: 'Cinematic',
+    text: 'cinematic lighting, shallow depth of field, anamorphic lens, color graded',
+    builtIn: true,
+  },
+  {
+    id: DEFAULT_NEGATIVE_PRESET_ID,
+    kind: 'negative',
+    name: 'Quality defaults',
+    text: 'blurry, ugly, distorted, text, watermark, low quality, bad anatomy',
+    builtIn: true,
+  },
+];
+
+const PRESET_KINDS: PresetKind[] = ['template', 'style', 'negative'];
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+const isPromptPreset = (value: unknown): value is PromptPreset => {
+  const preset = value as PromptPreset;
+  return !!preset
+    && typeof preset.id === 'string'
+    && typeof preset.name === 'string'
+    && typeof preset.text === 'string'
+    && PRESET_KINDS.includes(preset.kind)
+    && (preset.negativePrompt === undefined || typeof preset.negativePrompt === 'string');
+};
+
+/**
+ * Returns the built-in presets (with any saved edits applied) followed by the user's own presets.
+ */
+export const loadPresets = (): PromptPreset[] => {
+  let saved: PromptPreset[] = [];
+  try {
+    const data = localStorage.getItem(PRESETS_KEY);
+    if (data) {
+      const parsed = JSON.parse(data);
+      saved = Array.isArray(parsed) ? parsed.filter(isPromptPreset) : [];
+    }
+  } catch (e) {
+    console.error("Failed to parse prompt presets", e);
+  }
+  const savedById = new Map(saved.map(preset => [preset.id, preset]));
+  const builtIns = BUILT_IN_PRESETS.map(preset => ({ ...preset, ...savedById.get(preset.id), builtIn: true }));
+  const custom = saved.filter(preset => !BUILT_IN_PRESETS.some(builtIn => builtIn.id === preset.id));
+  return [...builtIns, ...custom];
+};
+
+// Only edited built-ins and custom presets are stored, so improved defaults reach users who never touched them.
+export const savePresets = (presets: PromptPreset[]) => {
+  const toStore = presets.filter(preset => {
+    const original = BUILT_IN_PRESETS.find(builtIn => builtIn.id === preset.id);
+    return !original
+      || original.name !== preset.name
+      || original.text !== preset.text
+      || (original.negativePrompt ?? '') !== (preset.negativePrompt ?? '');
+  });
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(toStore));
+  } catch (e) {
+    console.error("Failed to save prompt presets in localStorage", e);
+  }
+};
+
+export const getBuiltInPreset = (id: string): PromptPreset | undefined =>
+  BUILT_IN_PRESETS.find(preset => preset.id === id);
+
+export const getActiveNegativePresetId = (): string | null => {
+  try {
+    const stored = localStorage.getItem(ACTIVE_NEGATIVE_KEY);
+    // An empty string means the user explicitly turned default negatives off.
+    return stored === null ? DEFAULT_NEGATIVE_PRESET_ID : stored || null;
+  } catch (e) {
+    console.error("Failed to read active negative preset", e);
+    return DEFAULT_NEGATIVE_PRESET_ID;
+  }
+};
+
+export const setActiveNegativePresetId = (id: string | null) => {
+  try {
+    localStorage.setItem(ACTIVE_NEGATIVE_KEY, id ?? '');
+  } catch (e) {
+    console.error("Failed to save active negative preset in localStorage", e);
+  }
+};
+
+export const extractTemplateVariables = (text: string): string[] =>
+  Array.from(new Set(Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1])));
+
+export const renderTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name]?.trim() || placeholder);
+
+// Joins comma-separated term lists, dropping empties and duplicates.
+export const combineNegativePrompts = (...parts: (string | undefined)[]): string => {
+  const terms = parts
+    .flatMap(part => (part ?? '').split(','))
+    .map(term => term.trim())
+    .filter(Boolean);
+  return Array.from(new Set(terms)).join(', ');
+};
+
+export const exportPresets = (presets: PromptPreset[]): string =>
+  JSON.stringify({ version: 1, presets: presets.map(({ builtIn, ...preset }) => preset) }, null, 2);
+
+/**
+ * Parses an exported preset file. Imported presets with an id that already exists replace it;
+ * throws when the file is not a preset export.
+ */
+export const importPresets = (json: string, existing: PromptPreset[]): PromptPreset[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The selected file is not valid JSON.');
+  }
+  const list = Array.isArray(parsed) ? parsed : (parsed as { presets?: unknown })?.presets;
+  if (!Array.isArray(list)) {
+    throw new Error('The selected file does not contain any presets.');
+  }
+  const imported = list.filter(isPromptPreset);
+  if (imported.length === 0) {
+    throw new Error('The selected file does not contain any valid presets.');
+  }
+  const importedById = new Map(imported.map(preset => [preset.id, preset]));
+  const merged = existing.map(preset => {
+    const replacement = importedById.get(preset.id);
+    return replacement ? { ...replacement, builtIn: preset.builtIn } : preset;
+  });
+  const added = imported
+    .filter(preset => !existing.some(item => item.id === preset.id))
+    .map(({ builtIn, ...preset }) => preset);
+  return [...merged, ...added];
+};
@@ -0,0 +1,175 @@
+// Pure quota arithmetic shared by the local API server (which owns the real count) and the
+// browser fallback used when no server is reachable. State lives in `QuotaBucket`s supplied by the caller.
+
+export type QuotaPolicyConfig =
+  | { type: 'per-day'; limit: number; timeZone?: string }
+  | { type: 'per-hour'; limit: number }
+  | { type: 'token-bucket'; capacity: number; refillPerHour: number };
+
+export interface QuotaConfig {
+  policy: QuotaPolicyConfig;
+  // 'global' shares one bucket between everyone; 'user' keeps a separate bucket per client address.
+  scope: 'global' | 'user';
+}
+
+export interface QuotaBucket {
+  // Start of the current window; for token buckets, the time `used` was last brought up to date.
+  windowStart: number;
+  used: number;
+}
+
+export interface QuotaStatus {
+  policy: string;
+  limit: number;
+  remaining: number;
+  // When the budget next grows: the window end, or the next token for a token bucket.
+  resetAt: number;
+  source: 'server' | 'local';
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_QUOTA_CONFIG: QuotaConfig = {
+  policy: { type: 'per-day', limit: 20 },
+  scope: 'global',
+};
+
+// Offset of `timeZone` from UTC at `time`, in milliseconds.
+const getTimeZoneOffset = (time: number, timeZone?: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(time));
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return asUtc - Math.floor(time / 1000) * 1000;
+};
+
+// Midnight of the calendar day containing `time` in `timeZone` (the runtime's zone when omitted).
+const startOfDay = (time: number, timeZone?: string): number => {
+  const offset = getTimeZoneOffset(time, timeZone);
+  const local = new Date(time + offset);
+  const midnightAsUtc = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+  return midnightAsUtc - getTimeZoneOffset(midnightAsUtc - offset, timeZone);
+};
+
+const nextDayStart = (dayStart: number, timeZone?: string): number =>
+  // 26 hours always lands inside the next day, even across DST changes.
+  startOfDay(dayStart + 26 * HOUR_MS, timeZone);
+
+export const describeQuotaPolicy = (policy: QuotaPolicyConfig): string => {
+  switch (policy.type) {
+    case 'per-day':
+      return `${policy.limit} per day`;
+    case 'per-hour':
+      return `${policy.limit} per hour`;
+    case 'token-bucket':
+      return `${policy.capacity} burst, ${policy.refillPerHour} per hour`;
+  }
+};
+
+const getLimit = (policy: QuotaPolicyConfig): number =>
+  policy.type === 'token-bucket' ? policy.capacity : policy.limit;
+
+// Brings a bucket up to `now`: starts a new window or refills tokens.
+const refreshBucket = (policy: QuotaPolicyConfig, bucket: QuotaBucket | undefined, now: number): QuotaBucket => {
+  switch (policy.type) {
+    case 'per-day': {
+      const windowStart = startOfDay(now, policy.timeZone);
+      return bucket && bucket.windowStart === windowStart ? bucket : { windowStart, used: 0 };
+    }
+    case 'per-hour': {
+      const windowStart = Math.floor(now / HOUR_MS) * HOUR_MS;
+      return bucket && bucket.windowStart === windowStart ? bucket : { windowStart, used: 0 };
+    }
+    case 'token-bucket': {
+      if (!bucket) return { windowStart: now, used: 0 };
+      const refilled = ((now - bucket.windowStart) / HOUR_MS) * policy.refillPerHour;
+      return { windowStart: now, used: Math.max(0, bucket.used - refilled) };
+    }
+  }
+};
+
+const toStatus = (policy: QuotaPolicyConfig, bucket: QuotaBucket, source: QuotaStatus['source']): QuotaStatus => {
+  const limit = getLimit(policy);
+  const remaining = Math.max(0, Math.floor(limit - bucket.used));
+  let resetAt: number;
+  switch (policy.type) {
+    case 'per-day':
+      resetAt = nextDayStart(bucket.windowStart, policy.timeZone);
+      break;
+    case 'per-hour':
+      resetAt = bucket.windowStart + HOUR_MS;
+      break;
+    case 'token-bucket': {
+      // Time until the fractional part of the next token has refilled.
+      const missing = bucket.used - Math.floor(bucket.used) || (bucket.used > 0 ? 1 : 0);
+      resetAt = bucket.windowStart + (missing / policy.refillPerHour) * HOUR_MS;
+      break;
+    }
+  }
+  return { policy: describeQuotaPolicy(policy), limit, remaining, resetAt, source };
+};
+
+export const getQuotaStatus = (
+  config: QuotaConfig,
+  bucket: QuotaBucket | undefined,
+  now: number,
+  source: QuotaStatus['source']
+): QuotaStatus => toStatus(config.policy, refreshBucket(config.policy, bucket, now), source);
+
+/**
+ * Grants up to `count` generations, never more than remain. Callers reserve before generating and
+ * refund what fails, so the count can never overshoot the limit even with concurrent requests.
+ */
+export const consumeQuota = (
+  config: QuotaConfig,
+  bucket: QuotaBucket | undefined,
+  now: number,
+  count: number,
+  source: QuotaStatus['source']
+): { bucket: QuotaBucket; granted: number; status: QuotaStatus } => {
+  const current = refreshBucket(config.policy, bucket, now);
+  const available = Math.max(0, Math.floor(getLimit(config.policy) - current.used));
+  const granted = Math.max(0, Math.min(Math.floor(count), available));
+  const updated = { ...current, used: current.used + granted };
+  return { bucket: updated, granted, status: toStatus(config.policy, updated, source) };
+};
+
+export const refundQuota = (
+  config: QuotaConfig,
+  bucket: QuotaBucket | undefined,
+  now: number,
+  count: number,
+  source: QuotaStatus['source']
+): { bucket: QuotaBucket; status: QuotaStatus } => {
+  const current = refreshBucket(config.policy, bucket, now);
+  const updated = { ...current, used: Math.max(0, current.used - Math.max(0, Math.floor(count))) };
+  return { bucket: updated, status: toStatus(config.policy, updated, source) };
+};
+
+/**
+ * Reads quota settings from environment-style variables:
+ * QUOTA_POLICY (per-day | per-hour | token-bucket), QUOTA_LIMIT, QUOTA_REFILL_PER_HOUR,
+ * QUOTA_TIMEZONE and QUOTA_SCOPE (global | user).
+ */
+export const parseQuotaConfig = (env: Record<string, string | undefined>): QuotaConfig => {
+  const limit = Number(env.QUOTA_LIMIT) > 0 ? Number(env.QUOTA_LIMIT) : 20;
+  const scope = env.QUOTA_SCOPE === 'user' ? 'user' : 'global';
+  switch (env.QUOTA_POLICY) {
+    case 'per-hour':
+      return { scope, policy: { type: 'per-hour', limit } };
+    case 'token-bucket': {
+      const refillPerHour = Number(env.QUOTA_REFILL_PER_HOUR) > 0 ? Number(env.QUOTA_REFILL_PER_HOUR) : 2;
+      return { scope, policy: { type: 'token-bucket', capacity: limit, refillPerHour } };
+    }
+    default:
+      return { scope, policy: { type: 'per-day', limit, timeZone: env.QUOTA_TIMEZONE || undefined } };
+  }
+};
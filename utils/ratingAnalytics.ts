@@ -0,0 +1,78 @@
+import type { GenerationRequest, HistoryEntry } from '../types';
+import type { GenerationLogEntry } from '../services/generationLog';
+
+export type AnalyticsDimension = 'template' | 'aspectRatio' | 'mode' | 'model';
+
+export const ANALYTICS_DIMENSIONS: { dimension: AnalyticsDimension; label: string }[] = [
+  { dimension: 'template', label: 'Prompt template' },
+  { dimension: 'aspectRatio', label: 'Aspect ratio' },
+  { dimension: 'mode', label: 'Mode' },
+  { dimension: 'model', label: 'Model' },
+];
+
+export interface AnalyticsRow {
+  key: string;
+  // Logged attempts, including failures. Images saved before the log existed are not counted here.
+  attempts: number;
+  failures: number;
+  // Null when nothing was logged for this group.
+  failureRate: number | null;
+  rated: number;
+  averageRating: number | null;
+}
+
+const NO_TEMPLATE = 'No template';
+
+type Grouped = Pick<GenerationRequest, 'mode' | 'aspectRatio' | 'template'> & { model: string | null };
+
+const groupKey = (item: Grouped, dimension: AnalyticsDimension): string => {
+  switch (dimension) {
+    case 'template':
+      return item.template?.name ?? NO_TEMPLATE;
+    case 'aspectRatio':
+      return item.aspectRatio;
+    case 'mode':
+      return item.mode;
+    case 'model':
+      return item.model ?? 'Unknown (failed before a response)';
+  }
+};
+
+/**
+ * Groups generation outcomes by one setting. Ratings come from history entries (so images rated
+ * after generation count), attempts and failures from the generation log.
+ */
+export const computeRatingAnalytics = (history: HistoryEntry[], log: GenerationLogEntry[], dimension: AnalyticsDimension): AnalyticsRow[] => {
+  const rows = new Map<string, { attempts: number; failures: number; rated: number; ratingTotal: number }>();
+  const row = (key: string) => {
+    let existing = rows.get(key);
+    if (!existing) {
+      existing = { attempts: 0, failures: 0, rated: 0, ratingTotal: 0 };
+      rows.set(key, existing);
+    }
+    return existing;
+  };
+
+  for (const entry of log) {
+    const target = row(groupKey({ ...entry, template: entry.template ?? undefined }, dimension));
+    target.attempts++;
+    if (entry.outcome === 'failure') target.failures++;
+  }
+  for (const entry of history) {
+    if (!entry.request || entry.rating <= 0) continue;
+    const target = row(groupKey(entry.request, dimension));
+    target.rated++;
+    target.ratingTotal += entry.rating;
+  }
+
+  return [...rows.entries()]
+    .map(([key, { attempts, failures, rated, ratingTotal }]) => ({
+      key,
+      attempts,
+      failures,
+      failureRate: attempts > 0 ? failures / attempts : null,
+      rated,
+      averageRating: rated > 0 ? ratingTotal / rated : null,
+    }))
+    .sort((a, b) => (b.averageRating ?? -1) - (a.averageRating ?? -1) || b.attempts - a.attempts);
+};
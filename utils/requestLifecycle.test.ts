@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CreateImageRequest, GeneratedImage } from '../types';
+import { ApiStatusError, ApiUnavailableError, callApi } from '../services/apiClient';
+import { geminiProvider } from '../services/geminiService';
+import { GenerationError } from './generationErrors';
+import { getRetryDelay, RequestCancelledError, RequestTimeoutError, runRequest, toGenerationError } from './requestLifecycle';
+
+vi.mock('../services/apiClient', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../services/apiClient')>(),
+  callApi: vi.fn(),
+}));
+
+const mockedCallApi = vi.mocked(callApi);
+
+const request: CreateImageRequest = { prompt: 'a lighthouse', negativePrompt: '', aspectRatio: '1:1' };
+const image: GeneratedImage = { base64: 'aGVsbG8=', mimeType: 'image/png', model: 'gemini-2.5-flash-image' };
+
+// The generate call as App runs it: the provider talking to the app server through callApi.
+const createImage = (signal: AbortSignal, onSent: () => void) => geminiProvider.create(request, { signal, onSent });
+
+const succeed = () => Promise.resolve({ status: 200, data: image });
+
+// A call that only settles when its signal is aborted, like a request the server never answers.
+const hang = (...[, , , options]: Parameters<typeof callApi>) => new Promise<never>((_, reject) => {
+  options?.signal?.addEventListener('abort', () => reject(options.signal?.reason), { once: true });
+});
+
+const serverError = (status: number, details: Record<string, unknown> = {}, retryAfterMs: number | null = null) =>
+  new ApiStatusError(status, `Server said ${status}`, retryAfterMs, details);
+
+describe('toGenerationError', () => {
+  it('keeps a GenerationError as it is', () => {
+    const error = new GenerationError({ code: 'no-image', message: 'No image.' });
+    expect(toGenerationError(error)).toBe(error);
+  });
+
+  it('maps the lifecycle errors to their codes', () => {
+    expect(toGenerationError(new RequestCancelledError()).code).toBe('cancelled');
+    expect(toGenerationError(new RequestTimeoutError(5000)).code).toBe('timeout');
+    expect(toGenerationError(new ApiUnavailableError()).code).toBe('provider-unavailable');
+    expect(toGenerationError(new TypeError('Failed to fetch')).code).toBe('network');
+    expect(toGenerationError('something odd').code).toBe('unknown');
+  });
+
+  it('uses the code the server classified, with its details', () => {
+    const error = toGenerationError(serverError(400, { code: 'safety-blocked', finishReason: 'IMAGE_SAFETY', modelText: 'No.' }));
+    expect(error).toMatchObject({ code: 'safety-blocked', finishReason: 'IMAGE_SAFETY', modelText: 'No.', message: 'Server said 400' });
+  });
+
+  it('falls back to the HTTP status for unknown codes', () => {
+    expect(toGenerationError(serverError(429, {}, 2000))).toMatchObject({ code: 'rate-limited', retryAfterMs: 2000 });
+    expect(toGenerationError(serverError(502, { code: 'something-new' })).code).toBe('provider-unavailable');
+  });
+});
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('does not retry permanent failures', () => {
+    expect(getRetryDelay(serverError(400, { code: 'safety-blocked' }), 0)).toBeNull();
+    expect(getRetryDelay(serverError(401), 0)).toBeNull();
+    expect(getRetryDelay(new RequestCancelledError(), 0)).toBeNull();
+  });
+
+  it('backs off exponentially with jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(getRetryDelay(serverError(503), 0)).toBe(1000);
+    expect(getRetryDelay(serverError(503), 2)).toBe(4000);
+    expect(getRetryDelay(serverError(503), 10)).toBe(30_000);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getRetryDelay(new RequestTimeoutError(1000), 1)).toBe(1600);
+  });
+
+  it('follows Retry-After, unless it asks to wait too long', () => {
+    expect(getRetryDelay(serverError(429, {}, 5000), 0)).toBe(5000);
+    expect(getRetryDelay(serverError(429, {}, 60 * 60 * 1000), 0)).toBeNull();
+  });
+});
+
+describe('runRequest', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockedCallApi.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('returns the result and reports the phases of a successful call', async () => {
+    mockedCallApi.mockImplementation((_path, _body, _accepted, options) => {
+      options?.onSent?.();
+      return succeed();
+    });
+    const onPhase = vi.fn();
+
+    await expect(runRequest(createImage, { timeoutMs: 10_000, maxRetries: 2 }, undefined, onPhase)).resolves.toEqual(image);
+    expect(mockedCallApi).toHaveBeenCalledWith('/api/images/create', request, [], expect.objectContaining({ signal: expect.any(AbortSignal) }));
+    expect(onPhase.mock.calls.map(([phase]) => phase)).toEqual(['sending', 'waiting']);
+  });
+
+  it('retries transient failures with backoff', async () => {
+    mockedCallApi
+      .mockRejectedValueOnce(serverError(503))
+      .mockRejectedValueOnce(new TypeError('Could not reach the app server.'))
+      .mockImplementationOnce(succeed);
+    const onPhase = vi.fn();
+
+    const result = runRequest(createImage, { timeoutMs: 10_000, maxRetries: 2 }, undefined, onPhase);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(mockedCallApi).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockedCallApi).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    await expect(result).resolves.toEqual(image);
+    expect(mockedCallApi).toHaveBeenCalledTimes(3);
+    expect(onPhase).toHaveBeenCalledWith('retrying', { attempt: 1, retryAt: expect.any(Number) });
+    expect(onPhase).toHaveBeenCalledWith('sending', { attempt: 3 });
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    mockedCallApi.mockRejectedValue(serverError(503));
+
+    const result = runRequest(createImage, { timeoutMs: 10_000, maxRetries: 1 }, undefined);
+    const assertion = expect(result).rejects.toMatchObject({ code: 'provider-unavailable' });
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+    expect(mockedCallApi).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry permanent failures', async () => {
+    mockedCallApi.mockRejectedValue(serverError(400, { code: 'safety-blocked', finishReason: 'IMAGE_SAFETY' }));
+
+    await expect(runRequest(createImage, { timeoutMs: 10_000, maxRetries: 3 })).rejects.toMatchObject({ code: 'safety-blocked' });
+    expect(mockedCallApi).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out an attempt that takes too long and retries it', async () => {
+    mockedCallApi.mockImplementationOnce(hang).mockImplementationOnce(succeed);
+
+    const result = runRequest(createImage, { timeoutMs: 5000, maxRetries: 1 });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(mockedCallApi.mock.calls[0][3]?.signal?.reason).toBeInstanceOf(RequestTimeoutError);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(result).resolves.toEqual(image);
+    expect(mockedCallApi).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects with a timeout once no retries are left', async () => {
+    mockedCallApi.mockImplementation(hang);
+
+    const result = runRequest(createImage, { timeoutMs: 5000, maxRetries: 0 });
+    const assertion = expect(result).rejects.toBeInstanceOf(RequestTimeoutError);
+    await vi.advanceTimersByTimeAsync(5000);
+    await assertion;
+    expect(toGenerationError(await result.catch(e => e)).code).toBe('timeout');
+  });
+
+  it('cancels the attempt in flight when aborted, without retrying', async () => {
+    mockedCallApi.mockImplementation(hang);
+    const controller = new AbortController();
+    const onPhase = vi.fn();
+
+    const result = runRequest(createImage, { timeoutMs: 10_000, maxRetries: 3 }, controller.signal, onPhase);
+    const assertion = expect(result).rejects.toBeInstanceOf(RequestCancelledError);
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+    await assertion;
+
+    expect(mockedCallApi).toHaveBeenCalledTimes(1);
+    expect(onPhase).toHaveBeenLastCalledWith('cancelled', { attempt: 1 });
+  });
+
+  it('cancels the wait before a retry when aborted', async () => {
+    mockedCallApi.mockRejectedValue(serverError(503));
+    const controller = new AbortController();
+
+    const result = runRequest(createImage, { timeoutMs: 10_000, maxRetries: 3 }, controller.signal);
+    const assertion = expect(result).rejects.toBeInstanceOf(RequestCancelledError);
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+    await assertion;
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(mockedCallApi).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(runRequest(createImage, { timeoutMs: 10_000, maxRetries: 3 }, controller.signal)).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(mockedCallApi).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,162 @@
+import type { RequestPhase } from '../types';
+import { ApiStatusError, ApiUnavailableError } from '../services/apiClient';
+import { classifyHttpStatus, GenerationError, isGenerationErrorCode, RETRYABLE_CODES } from './generationErrors';
+
+export interface RequestSettings {
+  // Per attempt; a timed-out attempt counts as a transient failure and may be retried.
+  timeoutMs: number;
+  // Extra attempts after the first one, for transient failures only.
+  maxRetries: number;
+}
+
+export const DEFAULT_REQUEST_SETTINGS: RequestSettings = { timeoutMs: 120_000, maxRetries: 2 };
+export const TIMEOUT_OPTIONS_SECONDS = [30, 60, 120, 300];
+export const RETRY_OPTIONS = [0, 1, 2, 3, 5];
+
+const REQUEST_SETTINGS_KEY = 'requestSettings';
+const BASE_RETRY_DELAY_MS = 1000;
+// A server asking to wait longer than this (e.g. a quota that resets tomorrow) is not retried.
+const MAX_RETRY_DELAY_MS = 30_000;
+
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`The request timed out after ${Math.round(timeoutMs / 1000)} seconds.`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('The request was cancelled.');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export const isCancelled = (e: unknown) => e instanceof RequestCancelledError || (e instanceof GenerationError && e.code === 'cancelled');
+
+/**
+ * Turns any failure of a generation request into a GenerationError with a code the UI can act on.
+ */
+export const toGenerationError = (e: unknown): GenerationError => {
+  if (e instanceof GenerationError) return e;
+  if (e instanceof RequestCancelledError) return new GenerationError({ code: 'cancelled', message: e.message });
+  if (e instanceof RequestTimeoutError) return new GenerationError({ code: 'timeout', message: e.message });
+  if (e instanceof ApiUnavailableError) return new GenerationError({ code: 'provider-unavailable', message: e.message });
+  if (e instanceof TypeError) return new GenerationError({ code: 'network', message: e.message });
+  if (e instanceof ApiStatusError) {
+    const { code, finishReason, modelText } = e.details;
+    return new GenerationError({
+      code: isGenerationErrorCode(code) ? code : classifyHttpStatus(e.status, e.message),
+      message: e.message,
+      finishReason: typeof finishReason === 'string' ? finishReason : undefined,
+      modelText: typeof modelText === 'string' ? modelText : undefined,
+      retryAfterMs: e.retryAfterMs,
+    });
+  }
+  return new GenerationError({ code: 'unknown', message: e instanceof Error ? e.message : 'An unexpected error occurred.' });
+};
+
+/**
+ * How long to wait before retrying after `error` on the given (0-based) attempt, or null when the
+ * error is permanent. Delays double per attempt with ±20% jitter; a Retry-After from the server wins.
+ */
+export const getRetryDelay = (error: unknown, attempt: number): number | null => {
+  const { code, retryAfterMs } = toGenerationError(error);
+  if (!RETRYABLE_CODES.includes(code)) {
+    return null;
+  }
+  if (retryAfterMs !== null) {
+    return retryAfterMs <= MAX_RETRY_DELAY_MS ? retryAfterMs : null;
+  }
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt) * (0.8 + Math.random() * 0.4);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', abort);
+    resolve();
+  }, ms);
+  const abort = () => {
+    clearTimeout(timer);
+    reject(new RequestCancelledError());
+  };
+  signal?.addEventListener('abort', abort, { once: true });
+});
+
+export interface PhaseInfo {
+  // 1-based.
+  attempt: number;
+  // Set with 'retrying': when the next attempt starts.
+  retryAt?: number;
+}
+
+/**
+ * Runs a request with a per-attempt timeout and retries transient failures with exponential backoff.
+ * Aborting `signal` cancels the attempt in flight (or the wait before the next one) and rejects with
+ * `RequestCancelledError`. `task` gets a signal for the current attempt and reports when it has sent
+ * the request, which moves the phase from 'sending' to 'waiting'.
+ */
+export const runRequest = async <T>(
+  task: (signal: AbortSignal, onSent: () => void) => Promise<T>,
+  settings: RequestSettings,
+  signal?: AbortSignal,
+  onPhase?: (phase: RequestPhase, info: PhaseInfo) => void
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      onPhase?.('cancelled', { attempt });
+      throw new RequestCancelledError();
+    }
+    const controller = new AbortController();
+    const cancel = () => controller.abort(new RequestCancelledError());
+    signal?.addEventListener('abort', cancel, { once: true });
+    const timer = setTimeout(() => controller.abort(new RequestTimeoutError(settings.timeoutMs)), settings.timeoutMs);
+    const info = { attempt: attempt + 1 };
+    onPhase?.('sending', info);
+    try {
+      return await task(controller.signal, () => onPhase?.('waiting', info));
+    } catch (e) {
+      // Providers reject aborted calls with whatever they like; the abort reason says what happened.
+      const error = controller.signal.aborted ? controller.signal.reason : e;
+      if (isCancelled(error)) {
+        onPhase?.('cancelled', info);
+        throw error;
+      }
+      const delay = attempt < settings.maxRetries ? getRetryDelay(error, attempt) : null;
+      if (delay === null) {
+        throw error;
+      }
+      console.error(`Request attempt ${attempt + 1} failed, retrying in ${Math.round(delay)} ms`, error);
+      onPhase?.('retrying', { attempt: attempt + 1, retryAt: Date.now() + delay });
+      try {
+        await sleep(delay, signal);
+      } catch (cancelled) {
+        onPhase?.('cancelled', info);
+        throw cancelled;
+      }
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+    }
+  }
+};
+
+export const loadRequestSettings = (): RequestSettings => {
+  try {
+    const data = localStorage.getItem(REQUEST_SETTINGS_KEY);
+    if (data) {
+      return { ...DEFAULT_REQUEST_SETTINGS, ...JSON.parse(data) };
+    }
+  } catch (e) {
+    console.error("Failed to parse request settings", e);
+  }
+  return DEFAULT_REQUEST_SETTINGS;
+};
+
+export const saveRequestSettings = (settings: RequestSettings) => {
+  try {
+    localStorage.setItem(REQUEST_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save request settings in localStorage", e);
+  }
+};
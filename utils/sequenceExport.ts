@@ -0,0 +1,212 @@
+import { encodeGif } from './gifEncoder';
+import { concatBytes, EXPORT_FORMATS, riffChunk } from './imageExport';
+import { createZip } from './zip';
+
+export type SequenceExportKind = 'contact-sheet' | 'gif' | 'webp' | 'frames';
+
+export const SEQUENCE_EXPORT_KINDS: { kind: SequenceExportKind; label: string }[] = [
+  { kind: 'contact-sheet', label: 'Contact sheet (PNG)' },
+  { kind: 'gif', label: 'Animated GIF' },
+  { kind: 'webp', label: 'Animated WebP' },
+  { kind: 'frames', label: 'Frame folder (ZIP)' },
+];
+
+export interface SequenceFrame {
+  blob: Blob;
+  // Shown under the frame on the contact sheet.
+  caption?: string;
+}
+
+export interface SequenceExportOptions {
+  kind: SequenceExportKind;
+  // How long each frame of an animation is shown.
+  frameDelayMs: number;
+  // File name without extension.
+  baseName: string;
+}
+
+// Animations are written at a reduced size; the frame folder keeps the full-size images.
+const ANIMATION_MAX_EDGE = 512;
+const SHEET_CELL_EDGE = 320;
+const SHEET_GAP = 16;
+const SHEET_CAPTION_HEIGHT = 28;
+const SHEET_BACKGROUND = '#111827';
+
+const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D } => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to create a canvas context for the sequence export.');
+  }
+  context.imageSmoothingEnabled = true;
+  context.imageSmoothingQuality = 'high';
+  return { canvas, context };
+};
+
+// Draws the bitmap centered in the box, scaled to fit without cropping.
+const drawContained = (context: CanvasRenderingContext2D, bitmap: ImageBitmap, x: number, y: number, width: number, height: number) => {
+  const scale = Math.min(width / bitmap.width, height / bitmap.height);
+  const drawWidth = bitmap.width * scale;
+  const drawHeight = bitmap.height * scale;
+  context.drawImage(bitmap, x + (width - drawWidth) / 2, y + (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+// Frames can differ in size (e.g. an extend that changed the aspect ratio), so animations use the
+// largest frame's box, letterboxed on black.
+const animationSize = (bitmaps: ImageBitmap[]): { width: number; height: number } => {
+  const width = Math.max(...bitmaps.map(bitmap => bitmap.width));
+  const height = Math.max(...bitmaps.map(bitmap => bitmap.height));
+  const scale = Math.min(1, ANIMATION_MAX_EDGE / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const renderAnimationFrames = (bitmaps: ImageBitmap[]): HTMLCanvasElement[] => {
+  const { width, height } = animationSize(bitmaps);
+  return bitmaps.map(bitmap => {
+    const { canvas, context } = createCanvas(width, height);
+    context.fillStyle = '#000000';
+    context.fillRect(0, 0, width, height);
+    drawContained(context, bitmap, 0, 0, width, height);
+    return canvas;
+  });
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (result) => (result ? resolve(result) : reject(new Error('Failed to encode a sequence frame.'))),
+      type,
+      quality
+    );
+  });
+
+const renderContactSheet = async (bitmaps: ImageBitmap[], captions: (string | undefined)[]): Promise<Blob> => {
+  const columns = Math.ceil(Math.sqrt(bitmaps.length));
+  const rows = Math.ceil(bitmaps.length / columns);
+  const cellHeight = SHEET_CELL_EDGE + SHEET_CAPTION_HEIGHT;
+  const { canvas, context } = createCanvas(
+    columns * SHEET_CELL_EDGE + (columns + 1) * SHEET_GAP,
+    rows * cellHeight + (rows + 1) * SHEET_GAP
+  );
+  context.fillStyle = SHEET_BACKGROUND;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.font = '14px sans-serif';
+  context.textBaseline = 'middle';
+
+  bitmaps.forEach((bitmap, index) => {
+    const x = SHEET_GAP + (index % columns) * (SHEET_CELL_EDGE + SHEET_GAP);
+    const y = SHEET_GAP + Math.floor(index / columns) * (cellHeight + SHEET_GAP);
+    drawContained(context, bitmap, x, y, SHEET_CELL_EDGE, SHEET_CELL_EDGE);
+
+    const caption = captions[index];
+    const label = caption ? `${index + 1}. ${caption}` : `${index + 1}`;
+    context.fillStyle = '#d1d5db';
+    let text = label;
+    while (text.length > 1 && context.measureText(text).width > SHEET_CELL_EDGE) {
+      text = text.slice(0, -2) + '…';
+    }
+    context.fillText(text, x, y + SHEET_CELL_EDGE + SHEET_CAPTION_HEIGHT / 2);
+  });
+  return canvasToBlob(canvas, 'image/png');
+};
+
+const readRiffChunks = (bytes: Uint8Array): { fourCc: string; chunk: Uint8Array }[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: { fourCc: string; chunk: Uint8Array }[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    chunks.push({ fourCc: new TextDecoder().decode(bytes.subarray(offset, offset + 4)), chunk: bytes.subarray(offset, end) });
+    offset = end;
+  }
+  return chunks;
+};
+
+const writeUint24 = (view: DataView, offset: number, value: number) => {
+  view.setUint16(offset, value & 0xffff, true);
+  view.setUint8(offset + 2, (value >> 16) & 0xff);
+};
+
+/**
+ * Muxes still WebP images of the same size into an animated WebP: a VP8X header with the animation
+ * flag, an ANIM chunk (loop forever) and one ANMF chunk per frame wrapping its ALPH/VP8/VP8L data.
+ */
+const muxAnimatedWebp = (stills: Uint8Array[], width: number, height: number, delayMs: number): Uint8Array => {
+  const frames = stills.map(still => {
+    const imageChunks = readRiffChunks(still).filter(({ fourCc }) => fourCc === 'ALPH' || fourCc === 'VP8 ' || fourCc === 'VP8L');
+    const header = new Uint8Array(16);
+    const view = new DataView(header.buffer);
+    // Offset x/y stay 0; then width-1, height-1, duration. Flags: no blending, no disposal.
+    writeUint24(view, 6, width - 1);
+    writeUint24(view, 9, height - 1);
+    writeUint24(view, 12, Math.min(0xffffff, Math.round(delayMs)));
+    header[15] = 0x02;
+    return riffChunk('ANMF', concatBytes([header, ...imageChunks.map(({ chunk }) => chunk)]));
+  });
+
+  const vp8x = new Uint8Array(10);
+  // Animation and alpha flags.
+  vp8x[0] = 0x02 | 0x10;
+  const vp8xView = new DataView(vp8x.buffer);
+  writeUint24(vp8xView, 4, width - 1);
+  writeUint24(vp8xView, 7, height - 1);
+  // Background color (BGRA) and a loop count of 0, i.e. forever.
+  const anim = new Uint8Array(6);
+
+  const body = concatBytes([new TextEncoder().encode('WEBP'), riffChunk('VP8X', vp8x), riffChunk('ANIM', anim), ...frames]);
+  const header = new Uint8Array(8);
+  header.set(new TextEncoder().encode('RIFF'), 0);
+  new DataView(header.buffer).setUint32(4, body.length, true);
+  return concatBytes([header, body]);
+};
+
+const extensionFor = (mimeType: string) => EXPORT_FORMATS.find(item => item.format === mimeType)?.extension ?? 'png';
+
+/**
+ * Exports an ordered sequence of frames as a contact sheet, a looping GIF or WebP animation, or a
+ * ZIP of the individual frames (numbered so they sort in order). Returns the file and its name.
+ */
+export const exportSequence = async (frames: SequenceFrame[], options: SequenceExportOptions): Promise<{ blob: Blob; fileName: string }> => {
+  if (frames.length === 0) {
+    throw new Error('The storyboard has no frames to export.');
+  }
+  const digits = String(frames.length).length;
+  const frameName = (index: number) => `frame-${String(index + 1).padStart(Math.max(2, digits), '0')}`;
+
+  if (options.kind === 'frames') {
+    const files = frames.map((frame, index) => ({
+      name: `${options.baseName}/${frameName(index)}.${extensionFor(frame.blob.type)}`,
+      blob: frame.blob,
+    }));
+    const zipFiles = await Promise.all(files.map(async ({ name, blob }) => ({ name, data: new Uint8Array(await blob.arrayBuffer()) })));
+    return { blob: createZip(zipFiles), fileName: `${options.baseName}.zip` };
+  }
+
+  const bitmaps = await Promise.all(frames.map(frame => createImageBitmap(frame.blob)));
+  try {
+    if (options.kind === 'contact-sheet') {
+      const blob = await renderContactSheet(bitmaps, frames.map(frame => frame.caption));
+      return { blob, fileName: `${options.baseName}-contact-sheet.png` };
+    }
+
+    const canvases = renderAnimationFrames(bitmaps);
+    const { width, height } = canvases[0];
+    if (options.kind === 'gif') {
+      const imageData = canvases.map(canvas => canvas.getContext('2d')!.getImageData(0, 0, width, height));
+      return { blob: encodeGif(imageData, options.frameDelayMs), fileName: `${options.baseName}.gif` };
+    }
+
+    const stills = await Promise.all(canvases.map(canvas => canvasToBlob(canvas, 'image/webp', 0.9)));
+    if (stills.some(still => still.type !== 'image/webp')) {
+      throw new Error('This browser cannot encode WebP images. Export an animated GIF instead.');
+    }
+    const bytes = await Promise.all(stills.map(async still => new Uint8Array(await still.arrayBuffer())));
+    const animated = muxAnimatedWebp(bytes, width, height, options.frameDelayMs);
+    return { blob: new Blob([animated], { type: 'image/webp' }), fileName: `${options.baseName}.webp` };
+  } finally {
+    bitmaps.forEach(bitmap => bitmap.close());
+  }
+};
@@ -0,0 +1,54 @@
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Words with their trailing whitespace, so joining the parts of either side gives back that text.
+const tokenize = (text: string): string[] => text.match(/\S+\s*|\s+/g) ?? [];
+
+// Case and trailing punctuation changes are not worth highlighting in a prompt.
+const normalize = (token: string) => token.trimEnd().replace(/[.,;:!?]+$/, '').toLowerCase();
+
+/**
+ * Word-level diff from `before` to `after` (longest common subsequence), with
+ * neighbouring parts of the same type merged. Prompts are short, so the quadratic table is fine.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  // lengths[i][j]: LCS length of a[i..] and b[j..].
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = normalize(a[i]) === normalize(b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (normalize(a[i]) === normalize(b[j])) {
+      push('same', b[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  a.slice(i).forEach(token => push('removed', token));
+  b.slice(j).forEach(token => push('added', token));
+  return parts;
+};
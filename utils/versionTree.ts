@@ -0,0 +1,50 @@
+import type { HistoryEntry } from '../types';
+
+export interface VersionNode {
+  entry: HistoryEntry;
+  children: VersionNode[];
+}
+
+/**
+ * Builds the branching version graph from the flat history list using each entry's `parentId`.
+ * Entries whose parent is missing (uploads, text creations, or a parent that was cleared) become roots.
+ * Roots and children are ordered oldest first so the tree reads like a timeline.
+ */
+export const buildVersionTree = (history: HistoryEntry[]): VersionNode[] => {
+  const nodes = new Map<string, VersionNode>();
+  for (const entry of history) {
+    nodes.set(entry.id, { entry, children: [] });
+  }
+
+  const roots: VersionNode[] = [];
+  for (const node of nodes.values()) {
+    const parentId = node.entry.request?.parentId;
+    const parent = parentId ? nodes.get(parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const byCreatedAt = (a: VersionNode, b: VersionNode) => a.entry.createdAt - b.entry.createdAt;
+  for (const node of nodes.values()) {
+    node.children.sort(byCreatedAt);
+  }
+  return roots.sort(byCreatedAt);
+};
+
+// Returns the ids from the root down to (and including) `id`.
+export const getLineage = (history: HistoryEntry[], id: string): string[] => {
+  const byId = new Map(history.map(entry => [entry.id, entry]));
+  const lineage: string[] = [];
+  const seen = new Set<string>();
+  let current = byId.get(id);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    lineage.unshift(current.id);
+    const parentId = current.request?.parentId;
+    current = parentId ? byId.get(parentId) : undefined;
+  }
+  return lineage;
+};
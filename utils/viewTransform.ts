@@ -0,0 +1,31 @@
+// Zoom and pan state for the image viewer. `scale` is relative to the image fitted into the viewport,
+// and `x`/`y` offset the image's center from the viewport's center, in screen pixels.
+export interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export const FIT_VIEW: ViewTransform = { scale: 1, x: 0, y: 0 };
+export const MIN_SCALE = 0.5;
+export const MAX_SCALE = 64;
+
+export const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+/**
+ * Zooms by `factor` while keeping the point under `anchor` (relative to the viewport's center) in place,
+ * so wheel zoom follows the cursor.
+ */
+export const zoomAt = (view: ViewTransform, factor: number, anchor: { x: number; y: number } = { x: 0, y: 0 }): ViewTransform => {
+  const scale = clampScale(view.scale * factor);
+  const applied = scale / view.scale;
+  return {
+    scale,
+    x: anchor.x - (anchor.x - view.x) * applied,
+    y: anchor.y - (anchor.y - view.y) * applied,
+  };
+};
+
+// Scale at which one image pixel covers one screen pixel, given the size the image is fitted to.
+export const actualSizeScale = (naturalWidth: number, fittedWidth: number) =>
+  fittedWidth > 0 ? clampScale(naturalWidth / fittedWidth) : 1;
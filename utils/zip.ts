@@ -0,0 +1,147 @@
+import { crc32 } from './crc32';
+
+// Minimal ZIP reader/writer. Archives are written uncompressed ("stored"): the images are already
+// compressed, and stored entries keep the writer synchronous. The reader also accepts deflated
+// entries so archives re-packed by other tools can be imported.
+
+export interface ZipFile {
+  name: string;
+  data: Uint8Array;
+  // Modification time, defaults to now when writing.
+  date?: Date;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+// General purpose flag bit 11: file names are UTF-8.
+const FLAG_UTF8 = 0x0800;
+
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = (files: ZipFile[]): Blob => {
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = new TextEncoder().encode(file.name);
+    const crc = crc32(file.data);
+    const { time, date } = toDosDateTime(file.date ?? new Date());
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, FLAG_UTF8, true);
+    localView.setUint16(8, METHOD_STORED, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, file.data.length, true);
+    localView.setUint32(22, file.data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, FLAG_UTF8, true);
+    centralView.setUint16(10, METHOD_STORED, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, file.data.length, true);
+    centralView.setUint32(24, file.data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    parts.push(local, file.data);
+    centralDirectory.push(central);
+    offset += local.length + file.data.length;
+  }
+
+  const directorySize = centralDirectory.reduce((total, entry) => total + entry.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end], { type: 'application/zip' });
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Reads every file from a ZIP archive via its central directory. Throws when the data is not a ZIP
+ * archive or uses an unsupported feature (encryption, ZIP64, compression other than deflate).
+ */
+export const readZip = async (blob: Blob): Promise<ZipFile[]> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  // The end-of-central-directory record sits at the end, possibly followed by a comment of up to 64 KB.
+  let endOffset = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('The selected file is not a ZIP archive.');
+  }
+
+  const count = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const files: ZipFile[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('The ZIP archive is damaged.');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x1) {
+      throw new Error(`"${name}" is encrypted, which is not supported.`);
+    }
+    if (compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error('ZIP64 archives are not supported.');
+    }
+    if (localOffset + 30 > bytes.length || view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error('The ZIP archive is damaged.');
+    }
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === METHOD_STORED) {
+      files.push({ name, data: raw });
+    } else if (method === METHOD_DEFLATE) {
+      files.push({ name, data: await inflateRaw(raw) });
+    } else {
+      throw new Error(`"${name}" uses an unsupported compression method.`);
+    }
+  }
+  return files;
+};
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so tests do not start the app's API server plugin.
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**'],
+  },
+});